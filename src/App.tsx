@@ -1,8 +1,26 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react'
 import { useAppContext } from './context/AppContext'
 import { useSettings } from './context/SettingsContext'
+import { useCompare, MIN_COMPARE_TARGETS } from './context/compare'
 import { CollapsibleGroup } from './components/CollapsibleGroup'
-import { RagUploader } from './components/RagUploader'
+import { RagUploader, type RagUploaderHandle } from './components/RagUploader'
+import { ConversationList } from './components/ConversationList'
+import { ConnectionProfiles } from './components/ConnectionProfiles'
+import { MessageContent } from './components/MessageContent'
+import { BranchSwitcher } from './components/BranchSwitcher'
+import { AgentTimeline } from './components/AgentTimeline'
+import { ModelCompareSetup } from './components/ModelCompareSetup'
+import { ModelComparison } from './components/ModelComparison'
+import { CitationChips } from './components/CitationChips'
+import { CitationPanel } from './components/CitationPanel'
+import { RetrievalPlayground } from './components/RetrievalPlayground'
+import { PersonaLibrary, PersonaAvatar } from './components/PersonaLibrary'
+import { PromptTemplateLibrary } from './components/PromptTemplateLibrary'
+import { SlashCommandMenu } from './components/SlashCommandMenu'
+import { CommandPalette, type PaletteAction } from './components/CommandPalette'
+import { ShortcutSettings } from './components/ShortcutSettings'
+import { ThemeSettings } from './components/ThemeSettings'
+import { THEME_MODES } from './utils/theme'
 
 import { MemoryManagement } from './components/MemoryManagement'
 import { Tooltip } from './components/Tooltip'
@@ -11,7 +29,11 @@ import { ChatSystemPrompts } from './components/ChatSystemPrompts'
 import { initializeMobileViewport } from './utils/mobileViewport'
 import { ConditionalTooltip } from './utils/uiUtils'
 import { PromptTextarea } from './components/PromptTextarea'
-import { getProviders, type Provider } from './api/ProviderClient'
+import { getProviders, getProviderModels, type Provider } from './api/ProviderClient'
+import { exportMemoryToFile } from './utils/sessionMemory'
+import { eventToBinding, findShortcutAction, hasModifier, loadShortcuts, saveShortcuts, type ShortcutActionId, type ShortcutMap } from './utils/keyboardShortcuts'
+import { getActivePersonaId, getPersona, loadPersonas, setActivePersonaId, type Persona } from './utils/personas'
+import { parseSlashCommand, suggestSlashCommands, type SlashCommand, type SlashCommandContext } from './utils/slashCommands'
 
 
 import './App.css'
@@ -46,7 +68,7 @@ class ErrorBoundary extends React.Component<{ children: React.ReactNode }, { has
           
           <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 mb-4">
             <h3 className="text-gray-800 font-semibold mb-2">Error Details:</h3>
-            <div className="bg-white border border-gray-300 rounded p-3 mb-3">
+            <div className="bg-surface border border-gray-300 rounded p-3 mb-3">
               <p className="text-red-600 font-medium">{this.state.error?.message}</p>
             </div>
             
@@ -82,6 +104,17 @@ class ErrorBoundary extends React.Component<{ children: React.ReactNode }, { has
   }
 }
 
+// ChatSettings flags that the command palette can toggle
+const SETTING_TOGGLES = [
+  { key: 'displayMessageModel', label: 'Show model on messages' },
+  { key: 'displayMessageTokens', label: 'Show token counts' },
+  { key: 'displayTimestamp', label: 'Show timestamps' },
+  { key: 'displayCachedIndicator', label: 'Show cached indicator' },
+  { key: 'disableLongMemoryRecall', label: 'Disable long-term memory recall' },
+  { key: 'disableAllMemoryRecall', label: 'Disable all memory recall' },
+  { key: 'unloadAfterCall', label: 'Unload model after each call' },
+] as const;
+
 function App() {
   const {
     messages,
@@ -96,17 +129,34 @@ function App() {
     importMemory,
     clearMessages,
     retryLastMessage,
+    stopGeneration,
+    editMessage,
+    getBranchInfo,
+    switchBranch,
     isModelLoading,
     isModelUnloading,
     isProviderBusy,
-    isBuiltInProviderBusy
+    isBuiltInProviderBusy,
+    activeConversation,
+    setConversationModel,
+    conversations,
+    createConversation,
+    switchConversation
   } = useAppContext();
   
   const { settings, updateSettings, updateTextSettings, updateTextSettingsImmediate } = useSettings();
+  const { compareEnabled, targets: compareTargets, run: compareRun, isComparing, runComparison } = useCompare();
+  const compareReady = compareEnabled && compareTargets.filter(t => t.providerId && t.modelId).length >= MIN_COMPARE_TARGETS;
 
 
 
   const [input, setInput] = useState('');
+  // Inline editing of an earlier user message (edit-and-resend forks the conversation)
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+  const [editingText, setEditingText] = useState('');
+  // Citation side panel: the message whose sources are shown and the selected citation
+  const [openCitation, setOpenCitation] = useState<{ messageId: string; index: number } | null>(null);
+  const citationMessage = openCitation ? messages.find(m => m.id === openCitation.messageId) : undefined;
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const [showMobileMenu, setShowMobileMenu] = useState(false);
   const [sidebarWidth, setSidebarWidth] = useState(288); // Default width (w-72 = 18rem = 288px)
@@ -122,14 +172,28 @@ function App() {
   const [baseUrl, setBaseUrl] = useState('http://localhost:11434');
   const [modelConfig, setModelConfig] = useState<{ temperature: number; maxTokens: number; topP: number; [key: string]: any }>({ temperature: 0.7, maxTokens: 150, topP: 0.8 });
   const [providers, setProviders] = useState<Provider[]>([]);
+  const [activePersona, setActivePersona] = useState<Persona | null>(() => getPersona(getActivePersonaId()) ?? null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  // Knowledge uploaders in the desktop sidebar and the mobile menu, for /upload
+  const desktopUploaderRef = useRef<RagUploaderHandle>(null);
+  const mobileUploaderRef = useRef<RagUploaderHandle>(null);
+  // Slash command autocomplete and feedback
+  const [commandIndex, setCommandIndex] = useState(0);
+  const [commandMenuDismissed, setCommandMenuDismissed] = useState(false);
+  const [commandNotice, setCommandNotice] = useState('');
+  // Set by `/memory off` without a message: the next message skips memory recall
+  const [memoryOffNext, setMemoryOffNext] = useState(false);
+  // Command palette and the customizable shortcut map
+  const [paletteOpen, setPaletteOpen] = useState(false);
+  const [paletteModels, setPaletteModels] = useState<Array<{ provider: Provider; modelId: string; modelName: string }>>([]);
+  const [shortcuts, setShortcuts] = useState<ShortcutMap>(() => loadShortcuts());
 
   // Auto-scroll to bottom when new messages arrive
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages]);
+  }, [messages, compareRun]);
 
   // Focus input when component mounts
   useEffect(() => {
@@ -162,6 +226,47 @@ function App() {
     localStorage.setItem('currentModelId', selectedModel);
   }, [selectedModel]);
 
+  // Restore the provider/model saved with a conversation when switching to it, and
+  // remember later selection changes on it. The switching render only restores: the
+  // selection state still belongs to the previous conversation at that point.
+  const activeConversationId = activeConversation?.id;
+  const conversationProviderId = activeConversation?.providerId;
+  const conversationModelId = activeConversation?.modelId;
+  const restoredConversationIdRef = useRef<string | undefined>(undefined);
+  useEffect(() => {
+    if (!activeConversationId) return;
+    if (restoredConversationIdRef.current !== activeConversationId) {
+      restoredConversationIdRef.current = activeConversationId;
+      if (conversationProviderId || conversationModelId) {
+        if (conversationProviderId) setSelectedProvider(conversationProviderId);
+        if (conversationModelId) setSelectedModel(conversationModelId);
+        return;
+      }
+    }
+    setConversationModel(selectedProvider, selectedModel);
+  }, [activeConversationId, conversationProviderId, conversationModelId, selectedProvider, selectedModel, setConversationModel]);
+
+  // Using a persona replaces the Character Prompt and applies its model defaults
+  const activatePersona = useCallback((persona: Persona) => {
+    setActivePersonaId(persona.id);
+    setActivePersona(persona);
+    updateTextSettingsImmediate({ characterPrompt: persona.characterPrompt });
+    const { temperature } = persona;
+    if (temperature !== undefined) {
+      setModelConfig(prev => ({ ...prev, temperature }));
+    }
+    if (persona.providerId && persona.modelId) {
+      setSelectedProvider(persona.providerId);
+      setSelectedModel(persona.modelId);
+    }
+  }, [updateTextSettingsImmediate]);
+
+  const deactivatePersona = useCallback(() => {
+    setActivePersonaId(null);
+    setActivePersona(null);
+    updateTextSettingsImmediate({ characterPrompt: '' });
+  }, [updateTextSettingsImmediate]);
+
   // Load providers from API
   useEffect(() => {
     const loadProviders = async () => {
@@ -184,18 +289,152 @@ function App() {
   // No-op: mobileViewport sets body/html classes to reflect keyboard visibility
 
   const isSubmittingRef = useRef<boolean>(false);
-  const handleSubmit = async () => {
-    if (isSubmittingRef.current) return;
-    if (input.trim() !== "" && !isRateLimited && !isLoading && !isModelLoading && !isModelUnloading && !isProviderBusy) {
+  const canSubmit = !isRateLimited && !isLoading && !isComparing && !isModelLoading && !isModelUnloading && !isProviderBusy;
+
+  // Send a prompt to the agent, or to every compare target in compare mode
+  const submitPrompt = async (text: string, overrides?: { disableAllMemoryRecall?: boolean }): Promise<boolean> => {
+    if (isSubmittingRef.current) return false;
+    if (text.trim() === "" || !canSubmit) return false;
+    try {
+      isSubmittingRef.current = true;
+      if (compareReady) {
+        runComparison(text);
+      } else {
+        await sendToAgent(text, { ...settings, ...(memoryOffNext ? { disableAllMemoryRecall: true } : {}), ...overrides });
+        setMemoryOffNext(false);
+      }
+      return true;
+    } finally {
+      // small delay to swallow double taps
+      setTimeout(() => { isSubmittingRef.current = false; }, 150);
+    }
+  };
+
+  const slashContext: SlashCommandContext = {
+    clearMessages,
+    retryLastMessage: () => retryLastMessage(settings),
+    selectModel: async (modelId, providerId) => {
+      if (providerId && !providers.some(p => p.id === providerId)) return `Unknown provider "${providerId}"`;
+      const targetProvider = providerId || selectedProvider;
       try {
-        isSubmittingRef.current = true;
-        await sendToAgent(input, settings);
-        setInput('');
-      } finally {
-        // small delay to swallow double taps
-        setTimeout(() => { isSubmittingRef.current = false; }, 150);
+        const { models } = await getProviderModels(targetProvider);
+        if (!(models || []).some(m => m.id === modelId)) return `Unknown model "${modelId}" for ${targetProvider}`;
+      } catch {
+        return `Could not load the models of ${targetProvider}`;
+      }
+      if (providerId) setSelectedProvider(providerId);
+      setSelectedModel(modelId);
+    },
+    selectPersona: (name) => {
+      if (name === null) {
+        deactivatePersona();
+        return;
+      }
+      const personas = loadPersonas();
+      const query = name.toLowerCase();
+      const persona = personas.find(p => p.name.toLowerCase() === query)
+        ?? personas.find(p => p.name.toLowerCase().startsWith(query));
+      if (!persona) return `No persona named "${name}"`;
+      activatePersona(persona);
+    },
+    sendWithoutMemory: async (text) => {
+      if (!text) {
+        setMemoryOffNext(true);
+        return;
       }
+      if (!await submitPrompt(text, { disableAllMemoryRecall: true })) return 'The message could not be sent right now';
+    },
+    openUploadPicker: () => {
+      (window.innerWidth > 768 ? desktopUploaderRef : mobileUploaderRef).current?.openPicker();
+    },
+  };
+
+  const runSlashCommand = async (command: SlashCommand, args: string) => {
+    const error = await command.run(args, slashContext);
+    if (error) {
+      setCommandNotice(error);
+      return;
+    }
+    setInput('');
+    setCommandNotice('');
+  };
+
+  const commandSuggestions = commandMenuDismissed ? [] : suggestSlashCommands(input);
+
+  const handleSubmit = async () => {
+    // A leading "//" sends a message that starts with a slash
+    if (input.startsWith('//')) {
+      if (await submitPrompt(input.slice(1))) setInput('');
+      return;
+    }
+    const parsed = parseSlashCommand(input);
+    if (parsed) {
+      if (parsed.command) {
+        await runSlashCommand(parsed.command, parsed.args);
+      } else {
+        setCommandNotice(`Unknown command /${parsed.name}. Start with // to send it as a message.`);
+      }
+      return;
     }
+    if (await submitPrompt(input)) setInput('');
+  };
+
+  const handleInputChange = (value: string) => {
+    setInput(value);
+    setCommandIndex(0);
+    setCommandMenuDismissed(false);
+    if (commandNotice) setCommandNotice('');
+  };
+
+  // Pick a suggestion: commands with arguments are completed, the rest run right away
+  const selectSuggestion = (command: SlashCommand) => {
+    if (command.args) {
+      setInput(`/${command.name} `);
+    } else {
+      runSlashCommand(command, '');
+    }
+  };
+
+  // Keyboard navigation of the slash command menu; runs before handleKeyPress
+  const handleCommandKeyDown = (e: React.KeyboardEvent) => {
+    if (commandSuggestions.length === 0) return;
+    const count = commandSuggestions.length;
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      setCommandIndex(i => (i + (e.key === 'ArrowDown' ? 1 : count - 1)) % count);
+    } else if (e.key === 'Tab' || (e.key === 'Enter' && !e.shiftKey)) {
+      e.preventDefault();
+      selectSuggestion(commandSuggestions[Math.min(commandIndex, count - 1)]);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      setCommandMenuDismissed(true);
+    }
+  };
+
+  // Filled prompt templates either land in the composer or are sent directly
+  const insertTemplate = (text: string) => {
+    setInput(prev => prev.trim() ? `${prev}\n\n${text}` : text);
+    setShowMobileMenu(false);
+    (window.innerWidth > 768 ? inputRef.current : textareaRef.current)?.focus();
+  };
+
+  const sendTemplate = (text: string) => {
+    setShowMobileMenu(false);
+    void submitPrompt(text);
+  };
+
+  const closeCitation = useCallback(() => setOpenCitation(null), []);
+
+  // Continue the conversation with the model whose answer won the comparison
+  const handleCompareWinner = (target: { providerId: string; modelId: string }) => {
+    setSelectedProvider(target.providerId);
+    setSelectedModel(target.modelId);
+  };
+
+  const submitEdit = () => {
+    if (!editingMessageId || !editingText.trim() || !canSubmit) return;
+    editMessage(editingMessageId, editingText, settings);
+    setEditingMessageId(null);
   };
 
   const handleKeyPress = (e: React.KeyboardEvent) => {
@@ -221,6 +460,123 @@ function App() {
     setShowMobileMenu(!showMobileMenu);
   };
 
+  const isDesktop = () => window.innerWidth > 768;
+
+  const updateShortcuts = useCallback((next: ShortcutMap) => {
+    setShortcuts(next);
+    saveShortcuts(next);
+  }, []);
+
+  const closePalette = useCallback(() => setPaletteOpen(false), []);
+
+  // Conversation list is sorted newest first; step through it relative to the active one
+  const switchConversationBy = (offset: number) => {
+    const index = conversations.findIndex(c => c.id === activeConversation?.id);
+    const next = conversations[index + offset];
+    if (next && !isLoading) switchConversation(next.id);
+  };
+
+  const shortcutHandlers: Record<ShortcutActionId, () => void> = {
+    openPalette: () => setPaletteOpen(open => !open),
+    newConversation: () => { if (!isLoading) createConversation(); },
+    previousConversation: () => switchConversationBy(-1),
+    nextConversation: () => switchConversationBy(1),
+    toggleSidebar: () => (isDesktop() ? toggleSidebar() : toggleMobileMenu()),
+    focusComposer: () => (isDesktop() ? inputRef.current : textareaRef.current)?.focus(),
+    retryLastMessage: () => { if (!isLoading) retryLastMessage(settings); },
+    stopGeneration: () => { if (isLoading) stopGeneration(); },
+  };
+
+  // Latest handlers for the window listener, which is only attached once
+  const shortcutHandlersRef = useRef(shortcutHandlers);
+  shortcutHandlersRef.current = shortcutHandlers;
+  const shortcutsRef = useRef(shortcuts);
+  shortcutsRef.current = shortcuts;
+  const paletteOpenRef = useRef(paletteOpen);
+  paletteOpenRef.current = paletteOpen;
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const binding = eventToBinding(e);
+      if (!binding || !hasModifier(binding)) return;
+      const action = findShortcutAction(shortcutsRef.current, binding);
+      // While the palette is open only its own shortcut (to close it) applies
+      if (!action || (paletteOpenRef.current && action !== 'openPalette')) return;
+      e.preventDefault();
+      shortcutHandlersRef.current[action]();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // Models of every available provider, loaded each time the palette opens
+  useEffect(() => {
+    if (!paletteOpen) return;
+    let stale = false;
+    Promise.all(providers.filter(p => p.available).map(provider =>
+      getProviderModels(provider.id)
+        .then(response => (response.models || []).map(m => ({ provider, modelId: m.id, modelName: m.name || m.id })))
+        .catch(() => [])
+    )).then(lists => { if (!stale) setPaletteModels(lists.flat()); });
+    return () => { stale = true; };
+  }, [paletteOpen, providers]);
+
+  const buildPaletteActions = (): PaletteAction[] => {
+    const uploader = () => (isDesktop() ? desktopUploaderRef : mobileUploaderRef).current;
+    return [
+      { id: 'conversation:new', group: 'Conversation', title: 'New conversation', shortcut: shortcuts.newConversation, run: shortcutHandlers.newConversation },
+      ...conversations
+        .filter(c => c.id !== activeConversation?.id)
+        .map(c => ({ id: `conversation:${c.id}`, group: 'Conversation', title: `Switch to "${c.title}"`, run: () => switchConversation(c.id) })),
+      { id: 'chat:clear', group: 'Chat', title: 'Clear messages', run: clearMessages },
+      { id: 'chat:retry', group: 'Chat', title: 'Retry last message', shortcut: shortcuts.retryLastMessage, run: shortcutHandlers.retryLastMessage },
+      ...(isLoading ? [{ id: 'chat:stop', group: 'Chat', title: 'Stop generating', shortcut: shortcuts.stopGeneration, run: stopGeneration }] : []),
+      { id: 'chat:focus', group: 'Chat', title: 'Focus message input', shortcut: shortcuts.focusComposer, run: shortcutHandlers.focusComposer },
+      ...paletteModels
+        .filter(m => !(m.provider.id === selectedProvider && m.modelId === selectedModel))
+        .map(m => ({
+          id: `model:${m.provider.id}:${m.modelId}`,
+          group: 'Model',
+          title: `Use ${m.provider.name}: ${m.modelName}`,
+          keywords: m.modelId,
+          run: () => { setSelectedProvider(m.provider.id); setSelectedModel(m.modelId); },
+        })),
+      ...loadPersonas()
+        .filter(p => p.id !== activePersona?.id)
+        .map(p => ({ id: `persona:${p.id}`, group: 'Persona', title: `Use ${p.name}`, keywords: p.description, run: () => activatePersona(p) })),
+      ...(activePersona ? [{ id: 'persona:off', group: 'Persona', title: `Stop using ${activePersona.name}`, run: deactivatePersona }] : []),
+      ...SETTING_TOGGLES.map(({ key, label }) => ({
+        id: `setting:${key}`,
+        group: 'Settings',
+        title: `${label}: ${settings[key] ? 'On' : 'Off'}`,
+        keywords: 'toggle',
+        run: () => updateSettings({ [key]: !settings[key] }),
+      })),
+      { id: 'memory:export', group: 'Memory', title: 'Export memory', run: () => { if (sessionId) exportMemoryToFile(sessionId).catch(e => console.error('Failed to export memory:', e)); } },
+      { id: 'knowledge:upload', group: 'Knowledge', title: 'Upload documents', run: () => uploader()?.openPicker() },
+      {
+        id: 'knowledge:clear',
+        group: 'Knowledge',
+        title: 'Clear knowledge base',
+        run: () => { if (window.confirm('Remove all documents from this session\'s knowledge base?')) uploader()?.clearKnowledgeBase().catch(e => console.error('Failed to clear knowledge base:', e)); },
+      },
+      ...THEME_MODES.filter(mode => mode.id !== settings.theme).map(mode => ({
+        id: `view:theme:${mode.id}`,
+        group: 'View',
+        title: `Theme: ${mode.label}`,
+        keywords: 'dark light appearance',
+        run: () => updateSettings({ theme: mode.id }),
+      })),
+      { id: 'view:sidebar', group: 'View', title: 'Toggle sidebar', shortcut: shortcuts.toggleSidebar, run: shortcutHandlers.toggleSidebar },
+      {
+        id: 'view:shortcuts',
+        group: 'View',
+        title: 'Customize keyboard shortcuts',
+        run: () => (isDesktop() ? setSidebarOpen(true) : setShowMobileMenu(true)),
+      },
+    ];
+  };
+
   // Sidebar resize handlers
   const handleResizeStart = useCallback((e: React.MouseEvent) => {
     e.preventDefault();
@@ -354,12 +710,23 @@ function App() {
     );
   };
 
+  // Active persona shown before the provider/model in the header
+  const renderPersonaDisplay = () => {
+    if (!activePersona) return null;
+    return (
+      <span className="flex items-center space-x-1 mr-2 flex-shrink-0 max-w-[140px]" title={activePersona.description || activePersona.name}>
+        <PersonaAvatar avatar={activePersona.avatar} className="w-5 h-5 text-sm" />
+        <span className="truncate font-medium text-gray-700">{activePersona.name}</span>
+      </span>
+    );
+  };
+
   return (
     <div className="flex h-screen bg-gray-50 overflow-hidden md:relative">
 
       {/* Sidebar - Desktop */}
       <div 
-        className={`${sidebarOpen ? '' : 'w-0'} ${sidebarTransitioning ? 'sidebar-transitioning' : ''} hidden md:block transition-all duration-300 ease-in-out bg-white border-r border-gray-200 overflow-hidden flex-shrink-0 relative`}
+        className={`${sidebarOpen ? '' : 'w-0'} ${sidebarTransitioning ? 'sidebar-transitioning' : ''} hidden md:block transition-all duration-300 ease-in-out bg-surface border-r border-gray-200 overflow-hidden flex-shrink-0 relative`}
         style={{ width: sidebarOpen ? `${sidebarWidth}px` : '0px' }}
       >
         <div className="h-full flex flex-col">
@@ -391,9 +758,28 @@ function App() {
           {/* Scrollable Content */}
           <div className="flex-1 overflow-y-auto sidebar-container">
             <div className="p-4 sidebar-content space-y-4">
+              {/* Conversations */}
+              <CollapsibleGroup title="Conversations" defaultExpanded={true} className="collapsible-group-top">
+                <ConversationList />
+              </CollapsibleGroup>
+
               {/* Chat */}
               <CollapsibleGroup title="Chat" defaultExpanded={false} className="collapsible-group-top">
                 <div className="space-y-4">
+                  {/* Personas Sub-group */}
+                  <CollapsibleGroup title="Personas" defaultExpanded={false} className="collapsible-group-nested">
+                    <PersonaLibrary
+                      activePersonaId={activePersona?.id ?? null}
+                      selectedProvider={selectedProvider}
+                      selectedModel={selectedModel}
+                      onActivate={activatePersona}
+                      onDeactivate={deactivatePersona}
+                    />
+                  </CollapsibleGroup>
+                  {/* Templates Sub-group */}
+                  <CollapsibleGroup title="Templates" defaultExpanded={false} className="collapsible-group-nested">
+                    <PromptTemplateLibrary canSend={canSubmit} onInsert={insertTemplate} onSend={sendTemplate} />
+                  </CollapsibleGroup>
                   {/* System Sub-group */}
                   <CollapsibleGroup title="System" defaultExpanded={false} className="collapsible-group-nested">
                     <ChatSystemPrompts
@@ -507,6 +893,15 @@ function App() {
                   onBaseUrlChange={setBaseUrl}
                   onConfigChange={setModelConfig}
                 />
+
+                {/* Compare Sub-group */}
+                <CollapsibleGroup title="Compare" defaultExpanded={false} className="collapsible-group-nested">
+                  <ModelCompareSetup
+                    providers={providers}
+                    selectedProvider={selectedProvider}
+                    selectedModel={selectedModel}
+                  />
+                </CollapsibleGroup>
                 
                 {/* Settings Sub-group - only show for Ollama */}
                 {selectedProvider === 'ollama' && (
@@ -533,7 +928,10 @@ function App() {
 
               {/* Knowledge - PDF Upload */}
               <CollapsibleGroup title="Knowledge" defaultExpanded={false} className="collapsible-group-top">
-                <RagUploader sessionId={sessionId} />
+                <RagUploader sessionId={sessionId} ref={desktopUploaderRef} />
+                <CollapsibleGroup title="Retrieval Playground" defaultExpanded={false} className="collapsible-group-nested">
+                  <RetrievalPlayground sessionId={sessionId} />
+                </CollapsibleGroup>
               </CollapsibleGroup>
 
               {/* Memory */}
@@ -543,6 +941,21 @@ function App() {
                   onMemoryImport={importMemory}
                 />
               </CollapsibleGroup>
+
+              {/* Connections */}
+              <CollapsibleGroup title="Connections" defaultExpanded={false} className="collapsible-group-top">
+                <ConnectionProfiles />
+              </CollapsibleGroup>
+
+              {/* Appearance */}
+              <CollapsibleGroup title="Appearance" defaultExpanded={false} className="collapsible-group-top">
+                <ThemeSettings />
+              </CollapsibleGroup>
+
+              {/* Shortcuts */}
+              <CollapsibleGroup title="Shortcuts" defaultExpanded={false} className="collapsible-group-top">
+                <ShortcutSettings shortcuts={shortcuts} onChange={updateShortcuts} />
+              </CollapsibleGroup>
             </div>
           </div>
         </div>
@@ -551,7 +964,7 @@ function App() {
       {/* Main Chat Area */}
       <div className="flex-1 flex flex-col min-w-0 mobile-layout">
         {/* Header */}
-        <div className="bg-white border-b border-gray-200 px-4 py-3 flex items-center justify-between flex-shrink-0 sticky z-20 top-0 mobile-header">
+        <div className="bg-surface border-b border-gray-200 px-4 py-3 flex items-center justify-between flex-shrink-0 sticky z-20 top-0 mobile-header">
           <div className="flex items-center">
             {/* Desktop Sidebar Toggle */}
             <button
@@ -577,15 +990,16 @@ function App() {
             
             <div className="flex flex-col">
               <h1 className="text-xl font-semibold flex items-center">
-                <span className="font-sans font-black text-slate-900 tracking-wider leading-none uppercase">AGENT</span>
+                <span className="font-sans font-black text-gray-900 tracking-wider leading-none uppercase">AGENT</span>
                 <span className="font-sans font-bold text-cyan-600 leading-none mx-1 italic transform -skew-x-6">AGENT</span>
                 <span className="font-mono font-black text-white bg-gradient-to-r from-indigo-600 to-purple-600 px-2 py-1 rounded-md leading-none flex items-center justify-center shadow-lg border border-indigo-400 ml-1" style={{ minHeight: '1.5rem' }}>AI</span>
               </h1>
               
               {/* Provider/Model Display for Mobile */}
-              {getProviderModelDisplay() && (
-                <div className="text-sm text-gray-600 mt-1 md:hidden max-w-[200px] truncate">
-                  {renderProviderModelDisplay()}
+              {(getProviderModelDisplay() || activePersona) && (
+                <div className="text-sm text-gray-600 mt-1 md:hidden max-w-[200px] flex items-center min-w-0">
+                  {renderPersonaDisplay()}
+                  <span className="truncate">{renderProviderModelDisplay()}</span>
                 </div>
               )}
             </div>
@@ -593,9 +1007,10 @@ function App() {
           
           {/* Centered Provider/Model Display for Desktop */}
           <div className="hidden md:flex items-center justify-center flex-1">
-            {getProviderModelDisplay() && (
-              <div className="text-sm text-gray-600 max-w-[300px] truncate">
-                {renderProviderModelDisplay()}
+            {(getProviderModelDisplay() || activePersona) && (
+              <div className="text-sm text-gray-600 max-w-[420px] flex items-center min-w-0">
+                {renderPersonaDisplay()}
+                <span className="truncate">{renderProviderModelDisplay()}</span>
               </div>
             )}
           </div>
@@ -634,7 +1049,7 @@ function App() {
         </div>
 
         {/* Mobile Menu */}
-        <div className={`md:hidden fixed inset-0 z-50 bg-white mobile-menu flex flex-col overflow-y-auto transition-transform duration-300 ${showMobileMenu ? 'translate-x-0' : 'translate-x-full'}`}>
+        <div className={`md:hidden fixed inset-0 z-50 bg-surface mobile-menu flex flex-col overflow-y-auto transition-transform duration-300 ${showMobileMenu ? 'translate-x-0' : 'translate-x-full'}`}>
             <div className="mobile-menu-header">
               <h3 className="text-lg font-bold text-gray-800">Settings</h3>
               <button
@@ -663,9 +1078,28 @@ function App() {
             <div className="flex-1 overflow-y-auto">
               <div className="p-4 pb-8 space-y-4">
                 {/* Mobile-only prompts were here for isolation; now reverted to render within collapsible group */}
+                {/* Conversations */}
+                <CollapsibleGroup title="Conversations" defaultExpanded={true} className="collapsible-group-top">
+                  <ConversationList />
+                </CollapsibleGroup>
+
                 {/* Chat */}
                 <CollapsibleGroup title="Chat" defaultExpanded={false} className="collapsible-group-top">
                   <div className="space-y-4">
+                    {/* Personas Sub-group */}
+                    <CollapsibleGroup title="Personas" defaultExpanded={false} className="collapsible-group-nested">
+                      <PersonaLibrary
+                        activePersonaId={activePersona?.id ?? null}
+                        selectedProvider={selectedProvider}
+                        selectedModel={selectedModel}
+                        onActivate={activatePersona}
+                        onDeactivate={deactivatePersona}
+                      />
+                    </CollapsibleGroup>
+                    {/* Templates Sub-group */}
+                    <CollapsibleGroup title="Templates" defaultExpanded={false} className="collapsible-group-nested">
+                      <PromptTemplateLibrary canSend={canSubmit} onInsert={insertTemplate} onSend={sendTemplate} />
+                    </CollapsibleGroup>
                     {/* System Sub-group */}
                     <CollapsibleGroup title="System" defaultExpanded={false} className="collapsible-group-nested">
                       <div className="flex flex-col space-y-3">
@@ -792,6 +1226,15 @@ function App() {
                     onBaseUrlChange={setBaseUrl}
                     onConfigChange={setModelConfig}
                   />
+
+                  {/* Compare Sub-group */}
+                  <CollapsibleGroup title="Compare" defaultExpanded={false} className="collapsible-group-nested">
+                    <ModelCompareSetup
+                      providers={providers}
+                      selectedProvider={selectedProvider}
+                      selectedModel={selectedModel}
+                    />
+                  </CollapsibleGroup>
                   
                   {/* Settings Sub-group - only show for Ollama */}
                   {selectedProvider === 'ollama' && (
@@ -818,7 +1261,10 @@ function App() {
 
                 {/* Knowledge - PDF Upload (mobile) */}
                 <CollapsibleGroup title="Knowledge" defaultExpanded={false} className="collapsible-group-top">
-                  <RagUploader sessionId={sessionId} />
+                  <RagUploader sessionId={sessionId} ref={mobileUploaderRef} />
+                  <CollapsibleGroup title="Retrieval Playground" defaultExpanded={false} className="collapsible-group-nested">
+                    <RetrievalPlayground sessionId={sessionId} />
+                  </CollapsibleGroup>
                 </CollapsibleGroup>
 
                 {/* Memory - Mobile */}
@@ -828,13 +1274,28 @@ function App() {
                     onMemoryImport={importMemory}
                   />
                 </CollapsibleGroup>
+
+                {/* Connections - Mobile */}
+                <CollapsibleGroup title="Connections" defaultExpanded={false} className="collapsible-group-top">
+                  <ConnectionProfiles />
+                </CollapsibleGroup>
+
+                {/* Appearance - Mobile */}
+                <CollapsibleGroup title="Appearance" defaultExpanded={false} className="collapsible-group-top">
+                  <ThemeSettings />
+                </CollapsibleGroup>
+
+                {/* Shortcuts - Mobile */}
+                <CollapsibleGroup title="Shortcuts" defaultExpanded={false} className="collapsible-group-top">
+                  <ShortcutSettings shortcuts={shortcuts} onChange={updateShortcuts} />
+                </CollapsibleGroup>
               </div>
             </div>
           </div>
 
         {/* Messages Area */}
         <div className="flex-1 overflow-y-auto p-4 space-y-4 mobile-messages">
-          {messages.length === 0 ? (
+          {messages.length === 0 && !compareRun ? (
             <div className="flex items-center justify-center h-full">
               <div className="text-center text-gray-500">
                 <svg className="w-16 h-16 mx-auto mb-4 text-gray-300" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -860,58 +1321,143 @@ function App() {
                 </div>
               )}
 
-              {messages.map((msg, idx) => (
-                <div
-                  key={idx}
-                  className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}
-                >
+              {messages.map((msg) => {
+                const branchInfo = getBranchInfo(msg.id);
+                const canEdit = msg.role === 'user' && !isLoading;
+                return (
                   <div
-                    className={`max-w-xs sm:max-w-sm md:max-w-md lg:max-w-lg px-4 py-2 rounded-lg ${
-                      msg.role === 'user'
-                        ? 'bg-blue-500 text-white rounded-br-none'
-                        : (msg.metadata?.isIndicator
-                            ? 'bg-gray-50 text-gray-600 border border-dashed border-gray-300 italic rounded-bl-none'
-                            : (msg.metadata?.isError ? 'bg-red-50 text-red-800 border border-red-200 rounded-bl-none' : 'bg-white text-gray-800 border border-gray-200 rounded-bl-none'))
-                    }`}
+                    key={msg.id}
+                    className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}
                   >
-                    <div className="flex items-center space-x-2">
-                      <div className="text-sm whitespace-pre-wrap">{msg.content}</div>
-                    </div>
-                    
-                    {/* Message Metadata */}
-                    {msg.metadata && !msg.metadata.isIndicator && (settings.displayTimestamp || settings.displayMessageModel || settings.displayMessageTokens || (settings.displayCachedIndicator && msg.metadata.cached)) && (
-                      <div className={`mt-2 text-xs ${msg.role === 'user' ? 'text-blue-100' : (msg.metadata?.isError ? 'text-red-700' : 'text-gray-500')}`}>
-                        <div className="flex items-center justify-between">
-                          {settings.displayTimestamp && (
-                            <span>{formatTimestamp(msg.timestamp)}</span>
-                          )}
-                          {settings.displayMessageModel && msg.metadata.model && (
-                            <span className="ml-2 px-1 py-0.5 bg-gray-200 rounded text-gray-600">
-                              {msg.metadata.model}
-                            </span>
-                          )}
-                          {/* Provider errors are now separate messages; no inline badges */}
-                          {settings.displayCachedIndicator && msg.metadata.cached && msg.role === 'assistant' && (
-                            <span className="ml-2 px-1 py-0.5 bg-green-100 text-green-700 rounded">Cached</span>
-                          )}
+                    <div
+                      className={`max-w-xs sm:max-w-sm md:max-w-md lg:max-w-lg px-4 py-2 rounded-lg ${
+                        msg.role === 'user'
+                          ? 'bg-blue-500 text-white rounded-br-none'
+                          : (msg.metadata?.isIndicator
+                              ? 'bg-gray-50 text-gray-600 border border-dashed border-gray-300 italic rounded-bl-none'
+                              : (msg.metadata?.isError ? 'bg-red-50 text-red-800 border border-red-200 rounded-bl-none' : 'bg-surface text-gray-800 border border-gray-200 rounded-bl-none'))
+                      }`}
+                    >
+                      {editingMessageId === msg.id ? (
+                        <div className="space-y-2">
+                          <textarea
+                            autoFocus
+                            value={editingText}
+                            onChange={(e) => setEditingText(e.target.value)}
+                            onKeyDown={(e) => {
+                              if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); submitEdit(); }
+                              if (e.key === 'Escape') setEditingMessageId(null);
+                            }}
+                            className="w-full min-w-[16rem] p-2 text-sm text-gray-800 bg-surface border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-600 resize-y"
+                            rows={3}
+                          />
+                          <div className="flex justify-end space-x-2">
+                            <button
+                              type="button"
+                              onClick={() => setEditingMessageId(null)}
+                              className="px-2 py-1 text-xs bg-blue-400 text-white rounded hover:bg-blue-300"
+                            >
+                              Cancel
+                            </button>
+                            <button
+                              type="button"
+                              onClick={submitEdit}
+                              disabled={!editingText.trim() || !canSubmit}
+                              className="px-2 py-1 text-xs bg-surface text-blue-700 rounded hover:bg-blue-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                              Save & Send
+                            </button>
+                          </div>
+                        </div>
+                      ) : (
+                        <div className="flex items-center space-x-2">
+                          <MessageContent
+                            content={msg.content}
+                            isStreaming={msg.metadata?.isStreaming}
+                            plain={msg.role === 'user' || msg.metadata?.isIndicator || msg.metadata?.isError}
+                          />
                         </div>
-                        {/* Token usage display - show when tokens are available and setting is enabled */}
-                        {settings.displayMessageTokens && msg.role === 'assistant' && msg.metadata.promptTokens && msg.metadata.promptTokens > 0 && (
-                          <div className="mt-1 text-xs opacity-75">
-                            Input: {msg.metadata.promptTokens} | Output: {msg.metadata.completionTokens} | Total: {msg.metadata.totalTokens}
+                      )}
+                      
+                      {/* Message Metadata */}
+                      {msg.metadata && !msg.metadata.isIndicator && (settings.displayTimestamp || settings.displayMessageModel || settings.displayMessageTokens || (settings.displayCachedIndicator && msg.metadata.cached)) && (
+                        <div className={`mt-2 text-xs ${msg.role === 'user' ? 'text-blue-100' : (msg.metadata?.isError ? 'text-red-700' : 'text-gray-500')}`}>
+                          <div className="flex items-center justify-between">
+                            {settings.displayTimestamp && (
+                              <span>{formatTimestamp(msg.timestamp)}</span>
+                            )}
+                            {settings.displayMessageModel && msg.metadata.model && (
+                              <span className="ml-2 px-1 py-0.5 bg-gray-200 rounded text-gray-600">
+                                {msg.metadata.model}
+                              </span>
+                            )}
+                            {/* Provider errors are now separate messages; no inline badges */}
+                            {settings.displayCachedIndicator && msg.metadata.cached && msg.role === 'assistant' && (
+                              <span className="ml-2 px-1 py-0.5 bg-green-100 text-green-700 rounded">Cached</span>
+                            )}
+                            {msg.metadata.finishReason === 'cancelled' && (
+                              <span className="ml-2 px-1 py-0.5 bg-amber-100 text-amber-700 rounded">Stopped</span>
+                            )}
+                            {msg.metadata.finishReason === 'error' && (
+                              <span className="ml-2 px-1 py-0.5 bg-red-100 text-red-700 rounded">Interrupted</span>
+                            )}
                           </div>
-                        )}
+                          {/* Token usage display - show when tokens are available and setting is enabled */}
+                          {settings.displayMessageTokens && msg.role === 'assistant' && msg.metadata.promptTokens && msg.metadata.promptTokens > 0 && (
+                            <div className="mt-1 text-xs opacity-75">
+                              Input: {msg.metadata.promptTokens} | Output: {msg.metadata.completionTokens} | Total: {msg.metadata.totalTokens}
+                            </div>
+                          )}
 
 
-                      </div>
-                    )}
+                        </div>
+                      )}
+
+                      {/* Knowledge base citations */}
+                      {msg.role === 'assistant' && msg.metadata?.citations && msg.metadata.citations.length > 0 && !msg.metadata.isStreaming && (
+                        <CitationChips
+                          citations={msg.metadata.citations}
+                          onOpen={(index) => setOpenCitation({ messageId: msg.id, index })}
+                        />
+                      )}
+
+                      {/* Agent stage timeline */}
+                      {msg.role === 'assistant' && msg.metadata?.timeline && !msg.metadata.isStreaming && (
+                        <AgentTimeline timeline={msg.metadata.timeline} />
+                      )}
+
+                      {/* Branch versions and edit-and-resend */}
+                      {editingMessageId !== msg.id && (branchInfo || canEdit) && (
+                        <div className={`mt-1 flex items-center justify-end space-x-2 text-xs ${msg.role === 'user' ? 'text-blue-100' : 'text-gray-500'}`}>
+                          {branchInfo && (
+                            <BranchSwitcher
+                              index={branchInfo.index}
+                              count={branchInfo.count}
+                              disabled={isLoading}
+                              onPrevious={() => switchBranch(msg.id, -1)}
+                              onNext={() => switchBranch(msg.id, 1)}
+                            />
+                          )}
+                          {canEdit && (
+                            <button
+                              type="button"
+                              onClick={() => { setEditingMessageId(msg.id); setEditingText(msg.content); }}
+                              className="px-1 rounded hover:bg-black/10"
+                              title="Edit and resend (creates a new branch)"
+                            >
+                              Edit
+                            </button>
+                          )}
+                        </div>
+                      )}
+                    </div>
                   </div>
-                </div>
-              ))}
+                  );
+              })}
               
-              {isLoading && (
+              {isLoading && !messages[messages.length - 1]?.metadata?.isStreaming && (
                 <div className="flex justify-start">
-                  <div className="bg-white text-gray-800 border border-gray-200 rounded-lg rounded-bl-none px-4 py-2">
+                  <div className="bg-surface text-gray-800 border border-gray-200 rounded-lg rounded-bl-none px-4 py-2">
                     <div className="flex items-center space-x-2">
                       <div className="flex space-x-1">
                         <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce"></div>
@@ -925,19 +1471,56 @@ function App() {
               )}
             </>
           )}
+          <ModelComparison onWinner={handleCompareWinner} />
           <div ref={messagesEndRef} />
         </div>
 
+        {paletteOpen && <CommandPalette actions={buildPaletteActions()} onClose={closePalette} />}
+
+        {openCitation && citationMessage?.metadata?.citations && (
+          <CitationPanel
+            citations={citationMessage.metadata.citations}
+            index={openCitation.index}
+            sessionId={sessionId}
+            onSelect={(index) => setOpenCitation({ ...openCitation, index })}
+            onClose={closeCitation}
+          />
+        )}
+
         {/* Input Area - Fixed at Bottom */}
-        <div className="bg-white border-t border-gray-200 p-4 flex-shrink-0 bottom-0 z-20 mobile-input">
+        <div className="bg-surface border-t border-gray-200 p-4 flex-shrink-0 bottom-0 z-20 mobile-input">
+          {(commandNotice || memoryOffNext) && (
+            <div className="flex items-center space-x-2 mb-2 text-xs">
+              {memoryOffNext && (
+                <button
+                  type="button"
+                  onClick={() => setMemoryOffNext(false)}
+                  className="px-2 py-0.5 rounded-full bg-amber-100 text-amber-800 hover:bg-amber-200"
+                  title="Use memory for the next message again"
+                >
+                  Memory off for next message ✕
+                </button>
+              )}
+              {commandNotice && <span className="text-red-600">{commandNotice}</span>}
+            </div>
+          )}
           <div className="flex items-end space-x-3">
             <div className="flex-1 relative">
+              {commandSuggestions.length > 0 && (
+                <SlashCommandMenu
+                  commands={commandSuggestions}
+                  activeIndex={Math.min(commandIndex, commandSuggestions.length - 1)}
+                  onSelect={selectSuggestion}
+                  onHover={setCommandIndex}
+                />
+              )}
               {/* Desktop Input */}
               <input
                 ref={inputRef}
                 type="text"
                 value={input}
-                onChange={(e) => setInput(e.target.value)}
+                onChange={(e) => handleInputChange(e.target.value)}
+                onKeyDown={handleCommandKeyDown}
                 onKeyPress={handleKeyPress}
                 placeholder={
                   (isRateLimited && selectedProvider === 'gemini') ? `Rate limited. Wait ${rateLimitCooldown}s...` :
@@ -956,7 +1539,8 @@ function App() {
               <textarea
                 ref={textareaRef}
                 value={input}
-                onChange={(e) => setInput(e.target.value)}
+                onChange={(e) => handleInputChange(e.target.value)}
+                onKeyDown={handleCommandKeyDown}
                 onKeyPress={handleKeyPress}
                 placeholder={
                   (isRateLimited && selectedProvider === 'gemini') ? `Rate limited. Wait ${rateLimitCooldown}s...` :
@@ -974,25 +1558,39 @@ function App() {
               />
             </div>
             
-            <button
-              onClick={handleSubmit}
-              disabled={isLoading || ((isRateLimited && selectedProvider === 'gemini')) || (isModelBusy && selectedProvider === 'ollama') || (isBuiltInProviderBusy && selectedProvider === 'gemini') || isModelLoading || isModelUnloading || isProviderBusy || input.trim() === ""}
-              className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-600 focus:ring-offset-2 disabled:bg-gray-400 disabled:hover:bg-gray-400 disabled:cursor-not-allowed transition-all duration-200 flex-shrink-0 min-w-[60px] active:scale-95"
-              type="button"
-              title="Send message"
-            >
-              {isLoading || ((isRateLimited && selectedProvider === 'gemini')) || (isModelBusy && selectedProvider === 'ollama') || (isBuiltInProviderBusy && selectedProvider === 'gemini') || isModelLoading || isModelUnloading || isProviderBusy || input.trim() === "" ? (
-                // Caution triangle icon when disabled
-                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-2.5L13.732 4c-.77-.833-1.964-.833-2.732 0L3.732 16.5c-.77.833.192 2.5 1.732 2.5z" />
-                </svg>
-              ) : (
-                // Right-facing arrow when active
-                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 7l5 5m0 0l-5 5m5-5H6" />
+            {isLoading ? (
+              <button
+                onClick={stopGeneration}
+                className="px-6 py-3 bg-red-600 text-white rounded-lg hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-red-600 focus:ring-offset-2 transition-all duration-200 flex-shrink-0 min-w-[60px] active:scale-95"
+                type="button"
+                title="Stop generating"
+              >
+                {/* Stop square icon */}
+                <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24">
+                  <rect x="6" y="6" width="12" height="12" rx="1.5" />
                 </svg>
-              )}
-            </button>
+              </button>
+            ) : (
+              <button
+                onClick={handleSubmit}
+                disabled={isLoading || isComparing || ((isRateLimited && selectedProvider === 'gemini')) || (isModelBusy && selectedProvider === 'ollama') || (isBuiltInProviderBusy && selectedProvider === 'gemini') || isModelLoading || isModelUnloading || isProviderBusy || input.trim() === ""}
+                className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-600 focus:ring-offset-2 disabled:bg-gray-400 disabled:hover:bg-gray-400 disabled:cursor-not-allowed transition-all duration-200 flex-shrink-0 min-w-[60px] active:scale-95"
+                type="button"
+                title="Send message"
+              >
+                {isLoading || ((isRateLimited && selectedProvider === 'gemini')) || (isModelBusy && selectedProvider === 'ollama') || (isBuiltInProviderBusy && selectedProvider === 'gemini') || isModelLoading || isModelUnloading || isProviderBusy || input.trim() === "" ? (
+                  // Caution triangle icon when disabled
+                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-2.5L13.732 4c-.77-.833-1.964-.833-2.732 0L3.732 16.5c-.77.833.192 2.5 1.732 2.5z" />
+                  </svg>
+                ) : (
+                  // Right-facing arrow when active
+                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 7l5 5m0 0l-5 5m5-5H6" />
+                  </svg>
+                )}
+              </button>
+            )}
           </div>
           
           {/* Rate Limit / Busy Warning */}
@@ -1,46 +1,6 @@
-import axios, { AxiosError } from "axios";
-
-// Function to get the correct API base URL
-const getApiBaseUrl = (): string => {
-  // If environment variable is set, check if it's valid for current context
-  if (import.meta.env.VITE_API_BASE) {
-    const envUrl = import.meta.env.VITE_API_BASE;
-
-    // If we're accessing from a different hostname than localhost/127.0.0.1,
-    // and the env URL contains localhost, we need to make it dynamic
-    if ((window.location.hostname !== 'localhost' && window.location.hostname !== '127.0.0.1') &&
-        (envUrl.includes('localhost') || envUrl.includes('127.0.0.1'))) {
-      const dynamicUrl = `http://${window.location.hostname}:8080`;
-      return dynamicUrl;
-    }
-
-    // Otherwise, use the environment variable as-is
-    return envUrl;
-  }
-
-  // If running on localhost (development), use localhost
-  if (window.location.hostname === 'localhost' || window.location.hostname === '127.0.0.1') {
-    return "http://localhost:8080";
-  }
-
-  // If accessed from mobile/other device, use the same hostname as the frontend
-  // but with port 8080 for the backend
-  const apiUrl = `http://${window.location.hostname}:8080`;
-  return apiUrl;
-};
-
-const BASE_URL = getApiBaseUrl();
-const getClientId = (): string => {
-  const key = 'reactagent_client_id';
-  let id = localStorage.getItem(key);
-  if (!id) {
-    id = Math.random().toString(36).slice(2) + Date.now().toString(36);
-    localStorage.setItem(key, id);
-  }
-  return id;
-};
-
-
+import { http, apiUrl, getClientId, toApiError, TIMEOUTS } from "./httpClient";
+import { postEventStream } from "./sse";
+import type { RagCitation } from "./RagClient";
 
 // TypeScript interfaces for the new API response format
 export interface ChatResponse {
@@ -53,6 +13,18 @@ export interface ChatResponse {
     completionTokens: number;
     totalTokens: number;
   };
+  // Knowledge base chunks retrieved for this answer, in citation order
+  citations?: RagCitation[];
+  // Updated session memory to store for the next request
+  metadata?: {
+    memoryToken?: string;
+    memoryChunks?: string[];
+  };
+}
+
+// Incremental token chunk sent as a `delta` SSE event while an answer is generated
+export interface ChatDelta {
+  text: string;
 }
 
 export interface MessageRequest {
@@ -66,13 +38,21 @@ export interface MessageRequest {
   disableLongMemoryRecall?: boolean;
   disableAllMemoryRecall?: boolean;
   systemPrompt?: string;
+  // Target a specific provider/model instead of the server's current selection
+  providerId?: string;
+  modelId?: string;
 }
 
-export interface ApiError {
-  message: string;
-  status?: number;
-  isRateLimited?: boolean;
-  isNetworkError?: boolean;
+// Result of the memory import/clear endpoints
+export interface MemoryImportResult {
+  sessionId: string;
+  memoryToken?: string;
+  memoryChunks?: string[];
+  memoryMeta: {
+    sizeBytes: number;
+    chunkCount: number;
+    version: string;
+  };
 }
 
 // Model status interfaces
@@ -85,47 +65,27 @@ export interface ModelStatus {
 }
 
 // Enhanced API client with better error handling
-export const sendChatMessage = async (request: MessageRequest): Promise<ChatResponse> => {
+export const sendChatMessage = async (request: MessageRequest, options?: { signal?: AbortSignal }): Promise<ChatResponse> => {
   try {
-    const { data } = await axios.post<ChatResponse>(`${BASE_URL}/chat`, request, { headers: { 'X-Client-Id': getClientId(), ...(request.memoryToken ? { 'X-Memory-Token': request.memoryToken } : {}) } });
+    const { data } = await http.post<ChatResponse>('/chat', request, {
+      headers: request.memoryToken ? { 'X-Memory-Token': request.memoryToken } : undefined,
+      signal: options?.signal,
+      timeout: TIMEOUTS.generation,
+    });
     return data;
   } catch (error) {
-    const axiosError = error as AxiosError;
-    
-    // Handle rate limiting
-    if (axiosError.response?.status === 429) {
-      const errorData = axiosError.response.data as any;
-      try {
-        const prov = localStorage.getItem('currentProviderId');
-        if (prov && prov.toLowerCase() === 'ollama') {
-          // For local providers, do not propagate rate limit as an error; treat as a normal response
-          return {
-            message: (errorData?.message as string) || 'Model busy, please try again.',
-            cached: false,
-          } as ChatResponse;
-        }
-      } catch {}
-      throw {
-        message: errorData?.message || "Rate limit exceeded. Please wait before sending another message.",
-        status: 429,
-        isRateLimited: true
-      } as ApiError;
-    }
-    
-    // Handle network errors
-    if (!axiosError.response) {
-      throw {
-        message: "Network error. Please check your connection and try again.",
-        isNetworkError: true
-      } as ApiError;
+    const apiError = toApiError(error);
+    if (apiError.isRateLimited) {
+      const prov = localStorage.getItem('currentProviderId');
+      if (prov && prov.toLowerCase() === 'ollama') {
+        // For local providers, do not propagate rate limit as an error; treat as a normal response
+        return {
+          message: (apiError.data as { message?: string } | undefined)?.message || 'Model busy, please try again.',
+          cached: false,
+        };
+      }
     }
-    
-    // Handle other API errors
-    const errorData = axiosError.response.data as any;
-    throw {
-      message: errorData?.message || "An unexpected error occurred. Please try again.",
-      status: axiosError.response.status
-    } as ApiError;
+    throw apiError;
   }
 };
 
@@ -135,102 +95,109 @@ export interface SessionResponse {
 }
 
 export const getOrCreateSession = async (): Promise<SessionResponse> => {
-  const { data } = await axios.get(`${BASE_URL}/session`, { headers: { 'X-Client-Id': getClientId() } });
+  const { data } = await http.get<SessionResponse>('/session');
   // data contains fields including sessionId
-  return { sessionId: (data as any).sessionId } as SessionResponse;
+  return { sessionId: data.sessionId };
 };
 
 export const exportSession = async (sessionId: string, memory?: { token?: string; chunks?: string[] }) => {
   const params = new URLSearchParams({ sessionId });
   if (memory?.token) params.set('memoryToken', memory.token);
   if (memory?.chunks) params.set('memoryChunks', JSON.stringify(memory.chunks));
-  const { data } = await axios.get(`${BASE_URL}/sessions/export?${params.toString()}`);
+  const { data } = await http.get(`/sessions/export?${params.toString()}`, { timeout: TIMEOUTS.longRunning });
   return data;
 };
 
-export const importSession = async (memJson: any) => {
-  const { data } = await axios.post(`${BASE_URL}/sessions/import`, memJson);
-  return data as { sessionId: string; memoryToken?: string; memoryChunks?: string[]; memoryMeta?: any };
+export const importSession = async (memJson: SessionMemory): Promise<MemoryImportResult> => {
+  const { data } = await http.post<MemoryImportResult>('/sessions/import', memJson, { timeout: TIMEOUTS.longRunning });
+  return data;
 };
 
-// SSE stream helper for realtime agent stages
+// Agent stage update shown while the answer is prepared
+export interface AgentStatus {
+  stage?: string;
+  message?: string;
+}
+
+export interface StreamError {
+  message?: string;
+  status?: number;
+  isConnectionError?: boolean;
+  data?: unknown;
+}
+
+export type StreamChatEvent =
+  | { type: 'agent'; data: AgentStatus }
+  | { type: 'delta'; data: ChatDelta }
+  | { type: 'answer'; data: ChatResponse }
+  // Fatal: the request is over
+  | { type: 'error'; data: StreamError }
+  // Reported by the provider; the server may still send an answer
+  | { type: 'provider-error'; data: StreamError };
+
+// SSE stream helper for realtime agent stages.
+// POSTs the MessageRequest so long prompts and memory chunks stay out of URLs and logs.
 export const streamChat = (
-  params: {
-    message: string;
-    model?: string;
-    temperature?: number;
-    memoryToken?: string;
-    disableLongMemoryRecall?: boolean;
-    disableAllMemoryRecall?: boolean;
-    systemPrompt?: string;
-    unloadAfterCall?: boolean;
-  },
-  onEvent: (evt: { type: 'agent' | 'answer' | 'error'; data: any }) => void
+  request: MessageRequest & { unloadAfterCall?: boolean },
+  onEvent: (evt: StreamChatEvent) => void,
+  options?: { headers?: Record<string, string> }
 ) => {
-  const url = new URL(`${BASE_URL}/chat/stream`);
-  url.searchParams.set('message', params.message);
-  if (params.model) url.searchParams.set('model', params.model);
-  if (typeof params.temperature === 'number') url.searchParams.set('temperature', String(params.temperature));
-  if (params.memoryToken) url.searchParams.set('memoryToken', params.memoryToken);
-  if (params.disableLongMemoryRecall) url.searchParams.set('disableLongMemoryRecall', 'true');
-  if (params.disableAllMemoryRecall) url.searchParams.set('disableAllMemoryRecall', 'true');
-  if (params.systemPrompt) url.searchParams.set('systemPrompt', params.systemPrompt);
-  if (typeof params.unloadAfterCall === 'boolean') url.searchParams.set('unloadAfterCall', String(params.unloadAfterCall));
+  // Set once an answer or error has been delivered so the stream ending is not reported twice
+  let finished = false;
+  const emit = (evt: StreamChatEvent) => {
+    if (finished) return;
+    if (evt.type === 'answer' || evt.type === 'error') finished = true;
+    onEvent(evt);
+  };
 
-  url.searchParams.set('clientId', getClientId());
-  const es = new EventSource(url.toString());
-  
-  // Track connection state for better error handling
-  let hasReceivedAnyEvent = false;
-  let connectionStartTime = Date.now();
-  
-  es.addEventListener('agent', (e) => {
-    hasReceivedAnyEvent = true;
-    try { onEvent({ type: 'agent', data: JSON.parse((e as MessageEvent).data) }); } catch {}
-  });
-  
-  es.addEventListener('answer', (e) => {
-    hasReceivedAnyEvent = true;
-    try { onEvent({ type: 'answer', data: JSON.parse((e as MessageEvent).data) }); } catch {}
-    es.close();
-  });
-  
-  // Provider error: render as a separate message but do not close the stream yet
-  es.addEventListener('provider-error', (e) => {
-    hasReceivedAnyEvent = true;
-    try { onEvent({ type: 'error', data: JSON.parse((e as MessageEvent).data) }); } catch {}
-  });
-  
-  // Fatal stream error - distinguish between connection errors and processing errors
-  es.addEventListener('error', (e) => {
-    const connectionTime = Date.now() - connectionStartTime;
-    
-    // If we haven't received any events and connection failed quickly, it's likely a connection error
-    if (!hasReceivedAnyEvent && connectionTime < 5000) {
-      console.log('SSE connection failed quickly, likely a connection error');
-      try { 
-        onEvent({ 
-          type: 'error', 
-          data: { 
-            message: 'Connection failed. Please check your network connection.',
-            isConnectionError: true 
-          } 
-        }); 
-      } catch {}
-    } else {
-      // If we received events or connection lasted longer, it might be a processing error
-      console.log('SSE stream error after receiving events or long connection time');
-      try { onEvent({ type: 'error', data: JSON.parse((e as MessageEvent).data) }); } catch {}
-    }
-    es.close();
+  let close = () => {};
+  close = postEventStream(apiUrl('/chat/stream').toString(), request, {
+    headers: {
+      'X-Client-Id': getClientId(),
+      ...(request.memoryToken ? { 'X-Memory-Token': request.memoryToken } : {}),
+      ...options?.headers,
+    },
+    onMessage: ({ event, data }) => {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(data);
+      } catch {
+        console.warn(`Ignoring malformed '${event}' stream event`);
+        return;
+      }
+      switch (event) {
+        case 'agent':
+          emit({ type: 'agent', data: parsed as AgentStatus });
+          break;
+        // Incremental answer tokens
+        case 'delta':
+          emit({ type: 'delta', data: parsed as ChatDelta });
+          break;
+        case 'answer':
+          emit({ type: 'answer', data: parsed as ChatResponse });
+          close();
+          break;
+        // Provider error: render as a separate message; the server may still send an answer
+        case 'provider-error':
+          onEvent({ type: 'provider-error', data: parsed as StreamError });
+          break;
+        // Fatal processing error reported by the server
+        case 'error':
+          emit({ type: 'error', data: parsed as StreamError });
+          close();
+          break;
+      }
+    },
+    onError: (error) => {
+      console.log('Chat stream request failed:', error.message);
+      emit({ type: 'error', data: error });
+    },
+    onClose: () => {
+      emit({ type: 'error', data: { message: 'The response stream ended before an answer was received.' } });
+    },
   });
-  
-  es.onerror = () => { 
-    console.log('SSE onerror triggered');
-    es.close(); 
-  };
-  
-  return () => es.close();
+
+  return () => close();
 };
 
 // Legacy method for backward compatibility (deprecated)
@@ -238,16 +205,16 @@ export const sendMessage = async (message: string) => {
   try {
     const response = await sendChatMessage({ message });
     return { reply: response.message };
-  } catch (error: any) {
+  } catch (error) {
     console.error("API Error:", error);
-    return { reply: error.message || "Error: Could not connect to API" };
+    return { reply: toApiError(error).message || "Error: Could not connect to API" };
   }
 };
 
-// Health check endpoint
-export const checkHealth = async (): Promise<boolean> => {
+// Health check endpoint. Pass `baseUrl` to probe a backend other than the active one.
+export const checkHealth = async (baseUrl?: string): Promise<boolean> => {
   try {
-    const { data } = await axios.get(`${BASE_URL}/health`);
+    const { data } = await http.get('/health', { timeout: TIMEOUTS.health, baseURL: baseUrl });
     return data.status === "UP";
   } catch (error) {
     console.error("Health check failed:", error);
@@ -258,18 +225,28 @@ export const checkHealth = async (): Promise<boolean> => {
 // Check if user is admin (simple implementation)
 export const checkIsAdmin = async (): Promise<boolean> => {
   try {
-    await axios.get(`${BASE_URL}/admin/cache/stats`, {
+    await http.get('/admin/cache/stats', {
       auth: {
         username: 'admin',
         password: 'admin'
       }
     });
     return true;
-  } catch (error) {
+  } catch {
     return false;
   }
 };
 
+// Long-term memory entry (fact, preference, goal, ...)
+export interface MemoryItem {
+  id: string;
+  kind: string;
+  text: string;
+  importance: number;
+  createdAt: string;
+  lastAccessedAt: string;
+}
+
 // Session Memory interface
 export interface SessionMemory {
   sessionId?: string;
@@ -278,14 +255,7 @@ export interface SessionMemory {
     role: string;
     content: string;
   }>;
-  items?: Array<{
-    id: string;
-    kind: string;
-    text: string;
-    importance: number;
-    createdAt: string;
-    lastAccessedAt: string;
-  }>;
+  items?: MemoryItem[];
   summary?: string;
   meta?: {
     version: string;
@@ -303,62 +273,32 @@ export const exportSessionMemory = async (
   memoryChunks?: string[]
 ): Promise<SessionMemory> => {
   try {
-    const params: any = { sessionId };
+    const params: Record<string, string> = { sessionId };
     if (memoryToken) {
       params.memoryToken = memoryToken;
     } else if (memoryChunks && memoryChunks.length > 0) {
       params.memoryChunks = JSON.stringify(memoryChunks);
     }
 
-    const response = await axios.get<SessionMemory>(`${BASE_URL}/sessions/export`, {
-      params,
-      headers: {
-        'X-Client-Id': getClientId(),
-      },
-    });
+    const response = await http.get<SessionMemory>('/sessions/export', { params, timeout: TIMEOUTS.longRunning });
     return response.data;
   } catch (error) {
-    const axiosError = error as AxiosError;
-    throw new Error(`Failed to export memory: ${axiosError.response?.data || axiosError.message}`);
+    throw toApiError(error, 'Failed to export memory');
   }
 };
 
 // Import session memory from JSON
-export const importSessionMemory = async (memoryData: SessionMemory): Promise<{
-  sessionId: string;
-  memoryToken?: string;
-  memoryChunks?: string[];
-  memoryMeta: {
-    sizeBytes: number;
-    chunkCount: number;
-    version: string;
-  };
-}> => {
+export const importSessionMemory = async (memoryData: SessionMemory): Promise<MemoryImportResult> => {
   try {
-    const response = await axios.post(`${BASE_URL}/sessions/import`, memoryData, {
-      headers: {
-        'X-Client-Id': getClientId(),
-        'Content-Type': 'application/json',
-      },
-    });
+    const response = await http.post<MemoryImportResult>('/sessions/import', memoryData, { timeout: TIMEOUTS.longRunning });
     return response.data;
   } catch (error) {
-    const axiosError = error as AxiosError;
-    throw new Error(`Failed to import memory: ${axiosError.response?.data || axiosError.message}`);
+    throw toApiError(error, 'Failed to import memory');
   }
 };
 
 // Clear long-term memory (keeps conversation turns and summary)
-export const clearLongTermMemory = async (sessionId: string): Promise<{
-  sessionId: string;
-  memoryToken?: string;
-  memoryChunks?: string[];
-  memoryMeta: {
-    sizeBytes: number;
-    chunkCount: number;
-    version: string;
-  };
-}> => {
+export const clearLongTermMemory = async (sessionId: string): Promise<MemoryImportResult> => {
   try {
     // Get current memory to preserve turns and summary
     const memKey = `mem:${sessionId}`;
@@ -367,7 +307,7 @@ export const clearLongTermMemory = async (sessionId: string): Promise<{
     if (raw) {
       try {
         memory = JSON.parse(raw);
-      } catch (e) {
+      } catch {
         // Continue without memory
       }
     }
@@ -395,22 +335,12 @@ export const clearLongTermMemory = async (sessionId: string): Promise<{
     const result = await importSessionMemory(currentMemory);
     return result;
   } catch (error) {
-    const axiosError = error as AxiosError;
-    throw new Error(`Failed to clear long-term memory: ${axiosError.response?.data || axiosError.message}`);
+    throw toApiError(error, 'Failed to clear long-term memory');
   }
 };
 
 // Clear all memory (including conversation turns)
-export const clearAllMemory = async (sessionId: string): Promise<{
-  sessionId: string;
-  memoryToken?: string;
-  memoryChunks?: string[];
-  memoryMeta: {
-    sizeBytes: number;
-    chunkCount: number;
-    version: string;
-  };
-}> => {
+export const clearAllMemory = async (sessionId: string): Promise<MemoryImportResult> => {
   try {
     // Create empty memory
     const emptyMemory: SessionMemory = {
@@ -430,8 +360,7 @@ export const clearAllMemory = async (sessionId: string): Promise<{
     const result = await importSessionMemory(emptyMemory);
     return result;
   } catch (error) {
-    const axiosError = error as AxiosError;
-    throw new Error(`Failed to clear all memory: ${axiosError.response?.data || axiosError.message}`);
+    throw toApiError(error, 'Failed to clear all memory');
   }
 };
 
@@ -440,31 +369,16 @@ export const clearLongTermMemoryEndpoint = async (
   sessionId: string,
   memoryToken?: string,
   memoryChunks?: string[]
-): Promise<{
-  sessionId: string;
-  memoryToken?: string;
-  memoryChunks?: string[];
-  memoryMeta: {
-    sizeBytes: number;
-    chunkCount: number;
-    version: string;
-  };
-}> => {
+): Promise<MemoryImportResult> => {
   try {
-    const response = await axios.post(`${BASE_URL}/sessions/clear-long-memory`, {
+    const response = await http.post<MemoryImportResult>('/sessions/clear-long-memory', {
       sessionId,
       memoryToken,
       memoryChunks: memoryChunks ? JSON.stringify(memoryChunks) : undefined
-    }, {
-      headers: {
-        'X-Client-Id': getClientId(),
-        'Content-Type': 'application/json',
-      },
-    });
+    }, { timeout: TIMEOUTS.longRunning });
     return response.data;
   } catch (error) {
-    const axiosError = error as AxiosError;
-    throw new Error(`Failed to clear long-term memory: ${axiosError.response?.data || axiosError.message}`);
+    throw toApiError(error, 'Failed to clear long-term memory');
   }
 };
 
@@ -473,62 +387,44 @@ export const clearAllMemoryEndpoint = async (
   sessionId: string,
   memoryToken?: string,
   memoryChunks?: string[]
-): Promise<{
-  sessionId: string;
-  memoryToken?: string;
-  memoryChunks?: string[];
-  memoryMeta: {
-    sizeBytes: number;
-    chunkCount: number;
-    version: string;
-  };
-}> => {
+): Promise<MemoryImportResult> => {
   try {
-    const response = await axios.post(`${BASE_URL}/sessions/clear-all-memory`, {
+    const response = await http.post<MemoryImportResult>('/sessions/clear-all-memory', {
       sessionId,
       memoryToken,
       memoryChunks: memoryChunks ? JSON.stringify(memoryChunks) : undefined
-    }, {
-      headers: {
-        'X-Client-Id': getClientId(),
-        'Content-Type': 'application/json',
-      },
-    });
+    }, { timeout: TIMEOUTS.longRunning });
     return response.data;
   } catch (error) {
-    const axiosError = error as AxiosError;
-    throw new Error(`Failed to clear all memory: ${axiosError.response?.data || axiosError.message}`);
+    throw toApiError(error, 'Failed to clear all memory');
   }
 };
 
 // Model status API functions
 export const getModelStatus = async (providerId: string, modelId: string): Promise<ModelStatus> => {
   try {
-    const response = await axios.get<ModelStatus>(`${BASE_URL}/api/model-status/provider/${providerId}/model/${modelId}`);
+    const response = await http.get<ModelStatus>(`/api/model-status/provider/${providerId}/model/${modelId}`);
     return response.data;
   } catch (error) {
-    const axiosError = error as AxiosError;
-    throw new Error(`Failed to get model status: ${axiosError.response?.data || axiosError.message}`);
+    throw toApiError(error, 'Failed to get model status');
   }
 };
 
 export const isProviderBusy = async (providerId: string): Promise<boolean> => {
   try {
-    const response = await axios.get<boolean>(`${BASE_URL}/api/model-status/provider/${providerId}/busy`);
+    const response = await http.get<boolean>(`/api/model-status/provider/${providerId}/busy`);
     return response.data;
   } catch (error) {
-    const axiosError = error as AxiosError;
-    throw new Error(`Failed to check provider busy status: ${axiosError.response?.data || axiosError.message}`);
+    throw toApiError(error, 'Failed to check provider busy status');
   }
 };
 
 export const isBuiltInProviderBusy = async (): Promise<{ is_busy: boolean; reason?: string; rate_limit?: string }> => {
   try {
-    const response = await axios.get<{ is_busy: boolean; reason?: string; rate_limit?: string }>(`${BASE_URL}/api/model-status/provider/builtin/busy`);
+    const response = await http.get<{ is_busy: boolean; reason?: string; rate_limit?: string }>('/api/model-status/provider/builtin/busy');
     return response.data;
   } catch (error) {
-    const axiosError = error as AxiosError;
-    throw new Error(`Failed to check Built-In provider busy status: ${axiosError.response?.data || axiosError.message}`);
+    throw toApiError(error, 'Failed to check Built-In provider busy status');
   }
 };
 
@@ -542,10 +438,9 @@ export const getCurrentModelStatus = async (): Promise<ModelStatus> => {
       modelId = 'llama2'; // Default Ollama model
     }
 
-    const response = await axios.get<ModelStatus>(`${BASE_URL}/api/model-status/current?providerId=${providerId}&modelId=${modelId}`);
+    const response = await http.get<ModelStatus>('/api/model-status/current', { params: { providerId, modelId } });
     return response.data;
   } catch (error) {
-    const axiosError = error as AxiosError;
     // For non-Ollama providers, return a default idle state
     const providerId = localStorage.getItem('currentProviderId') || 'gemini';
     if (providerId !== 'ollama') {
@@ -557,7 +452,7 @@ export const getCurrentModelStatus = async (): Promise<ModelStatus> => {
         timestamp: Date.now()
       };
     }
-    throw new Error(`Failed to get current model status: ${axiosError.response?.data || axiosError.message}`);
+    throw toApiError(error, 'Failed to get current model status');
   }
 };
 
@@ -570,7 +465,7 @@ export const streamModelStatus = (
 ) => {
   // URL encode the modelId to handle special characters like colons and slashes
   const encodedModelId = encodeURIComponent(modelId);
-  const url = new URL(`${BASE_URL}/api/model-status/stream`);
+  const url = apiUrl('/api/model-status/stream');
   url.searchParams.set('providerId', providerId);
   url.searchParams.set('modelId', encodedModelId);
   url.searchParams.set('clientId', getClientId());
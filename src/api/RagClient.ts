@@ -1,25 +1,4 @@
-import axios from 'axios';
-
-const getApiBaseUrl = (): string => {
-  if ((import.meta as any).env?.VITE_API_BASE) {
-    return (import.meta as any).env.VITE_API_BASE;
-  }
-  if (window.location.hostname === 'localhost' || window.location.hostname === '127.0.0.1') {
-    return 'http://localhost:8080';
-  }
-  return `http://${window.location.hostname}:8080`;
-};
-
-const BASE_URL = getApiBaseUrl();
-const getClientId = (): string => {
-  const key = 'reactagent_client_id';
-  let id = localStorage.getItem(key);
-  if (!id) {
-    id = Math.random().toString(36).slice(2) + Date.now().toString(36);
-    localStorage.setItem(key, id);
-  }
-  return id;
-};
+import { http, TIMEOUTS } from './httpClient';
 
 export interface UploadResult {
   sessionId: string;
@@ -30,14 +9,16 @@ export interface UploadResult {
 export const uploadDocument = async (
   file: File,
   sessionId?: string,
-  onProgress?: (percent: number) => void
+  onProgress?: (percent: number) => void,
+  // SHA-256 of the file content, stored with the source for deduplication
+  contentHash?: string
 ): Promise<UploadResult> => {
   const form = new FormData();
   form.append('file', file);
-  const url = new URL(`${BASE_URL}/rag/upload`);
-  if (sessionId) url.searchParams.set('sessionId', sessionId);
-  const { data } = await axios.post(url.toString(), form, {
-    headers: { 'Content-Type': 'multipart/form-data', 'X-Client-Id': getClientId() },
+  const { data } = await http.post<UploadResult>('/rag/upload', form, {
+    params: sessionId || contentHash ? { sessionId, contentHash } : undefined,
+    headers: { 'Content-Type': 'multipart/form-data' },
+    timeout: TIMEOUTS.upload,
     onUploadProgress: (evt) => {
       if (evt.total && onProgress) {
         const percent = Math.round((evt.loaded * 100) / evt.total);
@@ -45,7 +26,7 @@ export const uploadDocument = async (
       }
     }
   });
-  return data as UploadResult;
+  return data;
 };
 
 // Legacy function for backward compatibility
@@ -64,31 +45,175 @@ export interface RagSessionStatus {
   sources: string[];
 }
 
+// Retrieved chunk an answer was grounded on, sent with chat responses as `citations`
+export interface RagCitation {
+  sourceName: string;
+  chunkIndex: number;
+  score?: number;
+  // Chunk text; omitted by the backend for long chunks, fetch it with getRagChunk
+  text?: string;
+}
+
+export interface RagChunk {
+  sourceName: string;
+  chunkIndex: number;
+  text: string;
+}
+
 export const getSupportedFileTypes = async (): Promise<SupportedFileTypes> => {
-  const url = new URL(`${BASE_URL}/rag/supported-types`);
-  const { data } = await axios.get(url.toString(), { headers: { 'X-Client-Id': getClientId() } });
-  return data as SupportedFileTypes;
+  const { data } = await http.get<SupportedFileTypes>('/rag/supported-types');
+  return data;
 };
 
 export const getRagSessionStatus = async (sessionId?: string): Promise<RagSessionStatus> => {
-  const url = new URL(`${BASE_URL}/rag/status`);
-  if (sessionId) url.searchParams.set('sessionId', sessionId);
-  const { data } = await axios.get(url.toString(), { headers: { 'X-Client-Id': getClientId() } });
-  return data as RagSessionStatus;
+  const { data } = await http.get<RagSessionStatus>('/rag/status', { params: sessionId ? { sessionId } : undefined });
+  return data;
 };
 
 export const clearRag = async (sessionId?: string): Promise<void> => {
-  const url = new URL(`${BASE_URL}/rag/clear`);
-  if (sessionId) url.searchParams.set('sessionId', sessionId);
-  await axios.delete(url.toString(), { headers: { 'X-Client-Id': getClientId() } });
+  await http.delete('/rag/clear', { params: sessionId ? { sessionId } : undefined });
 };
 
 export const clearRagSource = async (sourceName: string, sessionId?: string): Promise<{ sessionId: string; sourceName: string; chunksRemoved: number }> => {
-  const url = new URL(`${BASE_URL}/rag/clear-source`);
-  url.searchParams.set('sourceName', sourceName);
-  if (sessionId) url.searchParams.set('sessionId', sessionId);
-  const { data } = await axios.delete(url.toString(), { headers: { 'X-Client-Id': getClientId() } });
+  const { data } = await http.delete('/rag/clear-source', { params: { sourceName, sessionId } });
+  return data;
+};
+
+
+
+export const getRagChunk = async (sourceName: string, chunkIndex: number, sessionId?: string): Promise<RagChunk> => {
+  const { data } = await http.get<RagChunk>('/rag/chunk', { params: { sourceName, chunkIndex, sessionId } });
+  return data;
+};
+
+export interface RagSourceInfo {
+  sourceName: string;
+  chunkCount: number;
+  // Epoch milliseconds
+  uploadedAt?: number;
+  sizeBytes?: number;
+  fileType?: string;
+}
+
+export interface RagChunkPage {
+  sourceName: string;
+  page: number;
+  pageSize: number;
+  // Chunks matching `query` (all chunks of the source when no query is given)
+  total: number;
+  chunks: RagChunk[];
+}
+
+export const listRagSources = async (sessionId?: string): Promise<RagSourceInfo[]> => {
+  const { data } = await http.get<{ sources: RagSourceInfo[] }>('/rag/sources', { params: sessionId ? { sessionId } : undefined });
+  return data.sources;
+};
+
+export const getRagChunks = async (
+  sourceName: string,
+  options: { sessionId?: string; page?: number; pageSize?: number; query?: string } = {}
+): Promise<RagChunkPage> => {
+  const { sessionId, page = 0, pageSize = 10, query } = options;
+  const { data } = await http.get<RagChunkPage>('/rag/chunks', {
+    params: { sourceName, sessionId, page, pageSize, query: query?.trim() || undefined },
+  });
   return data;
 };
 
+export interface RagSearchHit {
+  sourceName: string;
+  chunkIndex: number;
+  score: number;
+  text: string;
+}
 
+/**
+ * Run retrieval only: the top-k chunks the backend would use for `query` in this session.
+ * Nothing is added to the conversation or memory.
+ */
+export const searchRag = async (
+  query: string,
+  options: { sessionId?: string; topK?: number; minScore?: number; signal?: AbortSignal } = {}
+): Promise<RagSearchHit[]> => {
+  const { sessionId, topK = 5, minScore = 0, signal } = options;
+  const { data } = await http.post<{ results: RagSearchHit[] }>('/rag/search', { query, sessionId, topK, minScore }, {
+    signal,
+    timeout: TIMEOUTS.longRunning,
+  });
+  return data.results;
+};
+
+/**
+ * Ingest a web page: the backend fetches and extracts the URL, then chunks it like an upload
+ */
+export const ingestUrl = async (
+  url: string,
+  options: { sessionId?: string; sourceName?: string } = {}
+): Promise<UploadResult> => {
+  const { data } = await http.post<UploadResult>('/rag/ingest-url', {
+    url,
+    sessionId: options.sessionId,
+    sourceName: options.sourceName || undefined,
+  }, { timeout: TIMEOUTS.upload });
+  return data;
+};
+
+/**
+ * Ingest pasted text as a named source, reusing the regular upload pipeline
+ */
+export const ingestText = (
+  text: string,
+  sourceName: string,
+  sessionId?: string,
+  onProgress?: (percent: number) => void
+): Promise<UploadResult> => {
+  const name = /\.(txt|md)$/i.test(sourceName) ? sourceName : `${sourceName}.txt`;
+  return uploadDocument(new File([text], name, { type: 'text/plain' }), sessionId, onProgress);
+};
+
+// Chunked uploads: create an upload, PUT its chunks in any order, then complete it.
+// The server keeps received chunks so an interrupted upload can resume.
+
+export interface ChunkedUploadSession {
+  uploadId: string;
+  chunkSize: number;
+  // Indexes of chunks the server already has
+  receivedChunks: number[];
+}
+
+export const createChunkedUpload = async (params: {
+  fileName: string;
+  size: number;
+  chunkSize: number;
+  contentHash?: string;
+  sessionId?: string;
+}): Promise<ChunkedUploadSession> => {
+  const { data } = await http.post<ChunkedUploadSession>('/rag/uploads', params);
+  return data;
+};
+
+export const getChunkedUpload = async (uploadId: string): Promise<ChunkedUploadSession> => {
+  const { data } = await http.get<ChunkedUploadSession>(`/rag/uploads/${encodeURIComponent(uploadId)}`);
+  return data;
+};
+
+export const uploadChunk = async (
+  uploadId: string,
+  index: number,
+  chunk: Blob,
+  options: { signal?: AbortSignal; onProgress?: (loadedBytes: number) => void } = {}
+): Promise<void> => {
+  await http.put(`/rag/uploads/${encodeURIComponent(uploadId)}/chunks/${index}`, chunk, {
+    headers: { 'Content-Type': 'application/octet-stream' },
+    timeout: TIMEOUTS.upload,
+    signal: options.signal,
+    onUploadProgress: (evt) => options.onProgress?.(evt.loaded),
+  });
+};
+
+export const completeChunkedUpload = async (uploadId: string): Promise<UploadResult> => {
+  const { data } = await http.post<UploadResult>(`/rag/uploads/${encodeURIComponent(uploadId)}/complete`, undefined, {
+    timeout: TIMEOUTS.upload,
+  });
+  return data;
+};
@@ -0,0 +1,165 @@
+import axios, { AxiosError, isCancel } from "axios";
+
+// Shared HTTP layer for all backend domains (chat, providers, RAG, memory).
+// Resolves the backend URL per request, injects the client id and turns every
+// failure into a typed ApiError.
+
+const API_BASE_OVERRIDE_KEY = 'apiBaseUrlOverride';
+const CLIENT_ID_KEY = 'reactagent_client_id';
+
+export const TIMEOUTS = {
+  // Metadata calls (providers, status, session)
+  default: 30000,
+  health: 5000,
+  // Uploads are bounded by progress, not wall time
+  upload: 0,
+  // Answers from local models routinely take minutes; the Stop button aborts instead
+  generation: 0,
+  // Memory import/export/clear and retrieval over large sessions
+  longRunning: 300000,
+} as const;
+
+const isLocalHostname = (hostname: string) => hostname === 'localhost' || hostname === '127.0.0.1';
+
+// Base URL from the build environment, guessing `<hostname>:8080` when unset
+export const getDefaultApiBaseUrl = (): string => {
+  const envUrl: string | undefined = import.meta.env.VITE_API_BASE;
+  if (envUrl) {
+    // If we're accessing from a different hostname than localhost/127.0.0.1,
+    // and the env URL contains localhost, we need to make it dynamic
+    if (!isLocalHostname(window.location.hostname) && (envUrl.includes('localhost') || envUrl.includes('127.0.0.1'))) {
+      return `http://${window.location.hostname}:8080`;
+    }
+    return envUrl;
+  }
+
+  // If running on localhost (development), use localhost
+  if (isLocalHostname(window.location.hostname)) {
+    return "http://localhost:8080";
+  }
+
+  // If accessed from mobile/other device, use the same hostname as the frontend
+  // but with port 8080 for the backend
+  return `http://${window.location.hostname}:8080`;
+};
+
+/**
+ * Backend base URL: a runtime override (if set) wins over the build-time default
+ */
+export const getApiBaseUrl = (): string => {
+  const override = localStorage.getItem(API_BASE_OVERRIDE_KEY);
+  return (override || getDefaultApiBaseUrl()).replace(/\/+$/, '');
+};
+
+export const setApiBaseUrlOverride = (url: string | null) => {
+  if (url && url.trim()) {
+    localStorage.setItem(API_BASE_OVERRIDE_KEY, url.trim());
+  } else {
+    localStorage.removeItem(API_BASE_OVERRIDE_KEY);
+  }
+};
+
+export const getApiBaseUrlOverride = (): string | null => localStorage.getItem(API_BASE_OVERRIDE_KEY);
+
+// Absolute URL for APIs used outside axios (fetch streams, EventSource)
+export const apiUrl = (path: string): URL => new URL(`${getApiBaseUrl()}${path}`);
+
+export const getClientId = (): string => {
+  let id = localStorage.getItem(CLIENT_ID_KEY);
+  if (!id) {
+    id = Math.random().toString(36).slice(2) + Date.now().toString(36);
+    localStorage.setItem(CLIENT_ID_KEY, id);
+  }
+  return id;
+};
+
+export class ApiError extends Error {
+  status?: number;
+  data?: unknown;
+  isRateLimited = false;
+  isNetworkError = false;
+  isCancelled = false;
+
+  constructor(message: string, options?: { status?: number; data?: unknown }) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = options?.status;
+    this.data = options?.data;
+  }
+}
+
+export class RateLimitError extends ApiError {
+  constructor(message = "Rate limit exceeded. Please wait before sending another message.", data?: unknown) {
+    super(message, { status: 429, data });
+    this.name = 'RateLimitError';
+    this.isRateLimited = true;
+  }
+}
+
+export class NetworkError extends ApiError {
+  constructor(message = "Network error. Please check your connection and try again.") {
+    super(message);
+    this.name = 'NetworkError';
+    this.isNetworkError = true;
+  }
+}
+
+export class RequestCancelledError extends ApiError {
+  constructor(message = "Request cancelled.") {
+    super(message);
+    this.name = 'RequestCancelledError';
+    this.isCancelled = true;
+  }
+}
+
+// Best human-readable message from an error response body
+const describeResponseData = (data: unknown): string | undefined => {
+  if (!data) return undefined;
+  if (typeof data === 'string') return data;
+  const body = data as { message?: unknown; error?: unknown; detail?: unknown };
+  const text = body.message ?? body.error ?? body.detail;
+  return typeof text === 'string' ? text : JSON.stringify(data);
+};
+
+/**
+ * Convert anything thrown by axios/fetch into an ApiError.
+ * `context` prefixes the message, e.g. "Failed to export memory".
+ */
+export const toApiError = (error: unknown, context?: string): ApiError => {
+  const withContext = (message: string) => (context ? `${context}: ${message}` : message);
+
+  if (error instanceof ApiError) {
+    error.message = withContext(error.message);
+    return error;
+  }
+  if (isCancel(error)) {
+    return new RequestCancelledError();
+  }
+  if (error instanceof AxiosError) {
+    if (!error.response) {
+      return error.code === AxiosError.ECONNABORTED
+        ? new NetworkError(withContext('The server took too long to respond.'))
+        : new NetworkError(context ? withContext('Network error') : undefined);
+    }
+    const detail = describeResponseData(error.response.data);
+    if (error.response.status === 429) {
+      return new RateLimitError(detail ? withContext(detail) : undefined, error.response.data);
+    }
+    return new ApiError(withContext(detail || error.message), { status: error.response.status, data: error.response.data });
+  }
+  if (error instanceof Error) {
+    return new ApiError(withContext(error.message));
+  }
+  return new ApiError(withContext('An unexpected error occurred. Please try again.'));
+};
+
+export const http = axios.create({ timeout: TIMEOUTS.default });
+
+http.interceptors.request.use((config) => {
+  // An explicit baseURL targets another backend, e.g. a connection profile health check
+  config.baseURL = config.baseURL || getApiBaseUrl();
+  config.headers.set('X-Client-Id', getClientId(), false);
+  return config;
+});
+
+http.interceptors.response.use(undefined, (error) => Promise.reject(toApiError(error)));
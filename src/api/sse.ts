@@ -0,0 +1,114 @@
+// Minimal Server-Sent Events client over fetch/ReadableStream.
+// Unlike EventSource it can POST a JSON body and send custom headers.
+
+export interface SseMessage {
+  event: string;
+  data: string;
+}
+
+export interface PostEventStreamOptions {
+  headers?: Record<string, string>;
+  onMessage: (message: SseMessage) => void;
+  // Called when the request fails or the server answers with a non-2xx status
+  onError: (error: { message: string; status?: number; isConnectionError?: boolean; data?: unknown }) => void;
+  // Called once the stream has ended on its own (not after close())
+  onClose?: () => void;
+}
+
+/**
+ * Parse an SSE byte stream into messages. Handles `event:`/`data:` fields,
+ * multi-line data, comments and both LF and CRLF line endings.
+ */
+const readEventStream = async (
+  body: ReadableStream<Uint8Array>,
+  onMessage: (message: SseMessage) => void
+) => {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let eventName = '';
+  let dataLines: string[] = [];
+
+  const dispatch = () => {
+    if (dataLines.length) {
+      onMessage({ event: eventName || 'message', data: dataLines.join('\n') });
+    }
+    eventName = '';
+    dataLines = [];
+  };
+
+  const processLine = (line: string) => {
+    if (line === '') {
+      dispatch();
+      return;
+    }
+    if (line.startsWith(':')) return; // comment / keep-alive
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+    if (field === 'event') eventName = value;
+    else if (field === 'data') dataLines.push(value);
+  };
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split(/\r\n|\r|\n/);
+    buffer = lines.pop() ?? '';
+    lines.forEach(processLine);
+  }
+  buffer += decoder.decode();
+  if (buffer) processLine(buffer);
+  dispatch();
+};
+
+/**
+ * POST a JSON body and consume the response as an event stream.
+ * Returns a close function that aborts the request.
+ */
+export const postEventStream = (url: string, body: unknown, options: PostEventStreamOptions): (() => void) => {
+  const controller = new AbortController();
+
+  (async () => {
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Accept': 'text/event-stream',
+          ...options.headers,
+        },
+        body: JSON.stringify(body),
+        signal: controller.signal,
+      });
+    } catch {
+      if (!controller.signal.aborted) {
+        options.onError({ message: 'Connection failed. Please check your network connection.', isConnectionError: true });
+      }
+      return;
+    }
+
+    if (!response.ok || !response.body) {
+      let data: unknown;
+      try { data = await response.json(); } catch { /* non-JSON error body */ }
+      const message = (data as { message?: string } | undefined)?.message
+        || (response.status === 429 ? 'Rate limit exceeded. Please wait before sending another message.' : `Request failed with status ${response.status}`);
+      options.onError({ message, status: response.status, data });
+      return;
+    }
+
+    try {
+      await readEventStream(response.body, options.onMessage);
+      if (!controller.signal.aborted) options.onClose?.();
+    } catch {
+      if (!controller.signal.aborted) {
+        options.onError({ message: 'The connection was interrupted while streaming the response.', isConnectionError: true });
+      }
+    }
+  })();
+
+  return () => controller.abort();
+};
@@ -0,0 +1,75 @@
+import React, { useState } from 'react';
+import {
+  type AgentTimeline as AgentTimelineData,
+  getTimelineSpans,
+  getTimelineDuration,
+  formatDuration,
+} from '../utils/agentTimeline';
+
+interface AgentTimelineProps {
+  timeline: AgentTimelineData;
+}
+
+const stageColors: Record<string, string> = {
+  request: 'bg-gray-400',
+  retrieval: 'bg-purple-500',
+  memory: 'bg-amber-500',
+  provider: 'bg-blue-500',
+  stream: 'bg-green-500',
+  fallback: 'bg-red-400',
+};
+
+/**
+ * Expandable breakdown of the agent stages behind an answer, with the time spent in each
+ */
+export const AgentTimeline: React.FC<AgentTimelineProps> = React.memo(({ timeline }) => {
+  const [expanded, setExpanded] = useState(false);
+  const spans = getTimelineSpans(timeline);
+  const total = getTimelineDuration(timeline);
+
+  return (
+    <div className="mt-1 text-xs text-gray-500">
+      <button
+        type="button"
+        onClick={() => setExpanded(prev => !prev)}
+        className="flex items-center space-x-1 hover:text-gray-700"
+        aria-expanded={expanded}
+        title="Show how long each agent stage took"
+      >
+        <svg className={`w-3 h-3 transition-transform ${expanded ? 'rotate-90' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+        </svg>
+        <span>Timeline{total !== undefined ? ` · ${formatDuration(total)}` : ''}</span>
+      </button>
+
+      {expanded && (
+        <ol className="mt-1 space-y-1 border-l border-gray-200 pl-2">
+          {spans.map((span, index) => {
+            const share = total && span.durationMs !== undefined ? Math.max(2, (span.durationMs / total) * 100) : 0;
+            return (
+              <li key={`${span.at}-${index}`} className="space-y-0.5">
+                <div className="flex items-center justify-between space-x-2">
+                  <div className="flex items-center space-x-1.5 min-w-0">
+                    <span className={`inline-block w-1.5 h-1.5 rounded-full flex-shrink-0 ${stageColors[span.stage] ?? 'bg-gray-400'}`}></span>
+                    <span className="font-medium text-gray-600">{span.stage}</span>
+                    <span className="truncate" title={span.message}>{span.message}</span>
+                  </div>
+                  <span className="flex-shrink-0 font-mono" title={`Started at +${formatDuration(span.offsetMs)}`}>
+                    {span.durationMs !== undefined ? formatDuration(span.durationMs) : '…'}
+                  </span>
+                </div>
+                {share > 0 && (
+                  <div className="h-1 bg-gray-100 rounded">
+                    <div className={`h-1 rounded ${stageColors[span.stage] ?? 'bg-gray-400'}`} style={{ width: `${share}%` }}></div>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+});
+
+AgentTimeline.displayName = 'AgentTimeline';
@@ -0,0 +1,39 @@
+import React from 'react';
+
+interface BranchSwitcherProps {
+  index: number;
+  count: number;
+  disabled?: boolean;
+  onPrevious: () => void;
+  onNext: () => void;
+  className?: string;
+}
+
+/**
+ * "‹ 2 / 3 ›" control for browsing sibling versions of a message
+ */
+export const BranchSwitcher: React.FC<BranchSwitcherProps> = React.memo(({ index, count, disabled, onPrevious, onNext, className = '' }) => (
+  <div className={`inline-flex items-center space-x-1 text-xs select-none ${className}`}>
+    <button
+      type="button"
+      onClick={onPrevious}
+      disabled={disabled || index <= 0}
+      className="px-1 rounded hover:bg-black/10 disabled:opacity-40 disabled:cursor-not-allowed"
+      title="Previous version"
+    >
+      ‹
+    </button>
+    <span className="tabular-nums">{index + 1} / {count}</span>
+    <button
+      type="button"
+      onClick={onNext}
+      disabled={disabled || index >= count - 1}
+      className="px-1 rounded hover:bg-black/10 disabled:opacity-40 disabled:cursor-not-allowed"
+      title="Next version"
+    >
+      ›
+    </button>
+  </div>
+));
+
+BranchSwitcher.displayName = 'BranchSwitcher';
@@ -0,0 +1,29 @@
+import React from 'react';
+import type { RagCitation } from '../api/RagClient';
+
+interface CitationChipsProps {
+  citations: RagCitation[];
+  onOpen: (index: number) => void;
+}
+
+/**
+ * Numbered chips for the knowledge base chunks an answer cites
+ */
+export const CitationChips: React.FC<CitationChipsProps> = React.memo(({ citations, onOpen }) => (
+  <div className="mt-2 flex flex-wrap gap-1">
+    {citations.map((citation, index) => (
+      <button
+        key={`${citation.sourceName}:${citation.chunkIndex}:${index}`}
+        type="button"
+        onClick={() => onOpen(index)}
+        className="inline-flex items-center max-w-full px-1.5 py-0.5 text-xs text-purple-800 bg-purple-50 border border-purple-200 rounded hover:bg-purple-100"
+        title={`${citation.sourceName}, chunk ${citation.chunkIndex}${citation.score !== undefined ? ` (score ${citation.score.toFixed(2)})` : ''}`}
+      >
+        <span className="font-semibold mr-1">[{index + 1}]</span>
+        <span className="truncate max-w-[10rem]">{citation.sourceName}</span>
+      </button>
+    ))}
+  </div>
+));
+
+CitationChips.displayName = 'CitationChips';
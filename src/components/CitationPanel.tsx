@@ -0,0 +1,104 @@
+import React, { useEffect, useState } from 'react';
+import { getRagChunk, type RagCitation } from '../api/RagClient';
+import { toApiError } from '../api/httpClient';
+
+interface CitationPanelProps {
+  citations: RagCitation[];
+  index: number;
+  sessionId?: string;
+  onSelect: (index: number) => void;
+  onClose: () => void;
+}
+
+/**
+ * Side panel with the text of a cited chunk. Chunks sent without text are loaded on demand.
+ */
+export const CitationPanel: React.FC<CitationPanelProps> = React.memo(({ citations, index, sessionId, onSelect, onClose }) => {
+  const citation = citations[index];
+  const [fetchedText, setFetchedText] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setFetchedText(null);
+    setError(null);
+    setLoading(false);
+    if (!citation || citation.text) return;
+    let stale = false;
+    setLoading(true);
+    getRagChunk(citation.sourceName, citation.chunkIndex, sessionId)
+      .then(chunk => { if (!stale) setFetchedText(chunk.text); })
+      .catch(e => { if (!stale) setError(toApiError(e).message); })
+      .finally(() => { if (!stale) setLoading(false); });
+    return () => { stale = true; };
+  }, [citation, sessionId]);
+
+  // Close on Escape
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  if (!citation) return null;
+  const text = citation.text ?? fetchedText;
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end" role="dialog" aria-label="Citation source">
+      <div className="absolute inset-0 bg-black/20" onClick={onClose}></div>
+      <div className="relative w-full max-w-md h-full bg-surface border-l border-gray-200 shadow-xl flex flex-col">
+        <div className="flex items-start justify-between px-4 py-3 border-b border-gray-200">
+          <div className="min-w-0">
+            <div className="text-xs text-purple-700 font-semibold">Citation [{index + 1}] of {citations.length}</div>
+            <div className="text-sm font-medium text-gray-800 break-all">{citation.sourceName}</div>
+            <div className="text-xs text-gray-500">
+              Chunk {citation.chunkIndex}
+              {citation.score !== undefined && ` · score ${citation.score.toFixed(3)}`}
+            </div>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="p-1 text-gray-400 hover:text-gray-700 rounded"
+            title="Close"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-4 py-3">
+          {loading && <div className="text-sm text-gray-500">Loading chunk...</div>}
+          {error && <div className="text-sm text-red-700">{error}</div>}
+          {text && <div className="text-sm text-gray-800 whitespace-pre-wrap">{text}</div>}
+        </div>
+
+        {citations.length > 1 && (
+          <div className="flex items-center justify-between px-4 py-2 border-t border-gray-200 text-sm">
+            <button
+              type="button"
+              onClick={() => onSelect(index - 1)}
+              disabled={index === 0}
+              className="px-2 py-1 rounded hover:bg-gray-100 disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              ‹ Previous
+            </button>
+            <button
+              type="button"
+              onClick={() => onSelect(index + 1)}
+              disabled={index === citations.length - 1}
+              className="px-2 py-1 rounded hover:bg-gray-100 disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              Next ›
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+});
+
+CitationPanel.displayName = 'CitationPanel';
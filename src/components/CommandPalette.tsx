@@ -0,0 +1,117 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { fuzzyScore } from '../utils/fuzzyMatch';
+import { formatBinding } from '../utils/keyboardShortcuts';
+
+export interface PaletteAction {
+  id: string;
+  title: string;
+  group: string;
+  // Extra words to match, e.g. the current state of a toggle
+  keywords?: string;
+  // Binding from the shortcut map, shown next to the title
+  shortcut?: string;
+  run: () => void;
+}
+
+interface CommandPaletteProps {
+  actions: PaletteAction[];
+  onClose: () => void;
+}
+
+const MAX_RESULTS = 50;
+
+/**
+ * Keyboard-driven launcher that fuzzy-searches every registered action
+ */
+export const CommandPalette: React.FC<CommandPaletteProps> = React.memo(({ actions, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const listRef = useRef<HTMLUListElement>(null);
+
+  const results = useMemo(() => {
+    if (!query.trim()) return actions.slice(0, MAX_RESULTS);
+    return actions
+      .map(action => {
+        const titleScore = fuzzyScore(query, `${action.group}: ${action.title}`);
+        const keywordScore = action.keywords ? fuzzyScore(query, action.keywords) : null;
+        const score = Math.max(titleScore ?? -Infinity, keywordScore === null ? -Infinity : keywordScore - 1);
+        return { action, score };
+      })
+      .filter(r => r.score !== -Infinity)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_RESULTS)
+      .map(r => r.action);
+  }, [actions, query]);
+
+  useEffect(() => {
+    listRef.current?.querySelector('[aria-selected="true"]')?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  const runAction = (action: PaletteAction) => {
+    onClose();
+    action.run();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      if (!results.length) return;
+      const step = e.key === 'ArrowDown' ? 1 : results.length - 1;
+      setActiveIndex(i => (i + step) % results.length);
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      const action = results[activeIndex];
+      if (action) runAction(action);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  return createPortal(
+    <div className="fixed inset-0 z-50 flex items-start justify-center p-4 pt-[15vh]" role="dialog" aria-label="Command palette">
+      <div className="absolute inset-0 bg-black/20" onClick={onClose}></div>
+      <div className="relative w-full max-w-xl bg-surface rounded-lg border border-gray-200 shadow-xl overflow-hidden">
+        <input
+          autoFocus
+          value={query}
+          onChange={(e) => { setQuery(e.target.value); setActiveIndex(0); }}
+          onKeyDown={handleKeyDown}
+          placeholder="Type a command or search..."
+          className="w-full px-4 py-3 text-sm border-b border-gray-200 focus:outline-none"
+          aria-label="Search commands"
+        />
+        {results.length === 0 ? (
+          <div className="px-4 py-6 text-sm text-gray-500 text-center">No matching commands</div>
+        ) : (
+          <ul ref={listRef} className="max-h-80 overflow-y-auto py-1" role="listbox">
+            {results.map((action, index) => (
+              <li
+                key={action.id}
+                role="option"
+                aria-selected={index === activeIndex}
+                onClick={() => runAction(action)}
+                onMouseMove={() => setActiveIndex(index)}
+                className={`flex items-center justify-between px-4 py-2 text-sm cursor-pointer ${index === activeIndex ? 'bg-blue-50' : ''}`}
+              >
+                <span className="min-w-0 truncate">
+                  <span className="text-gray-500">{action.group}: </span>
+                  <span className="text-gray-900">{action.title}</span>
+                </span>
+                {action.shortcut && (
+                  <kbd className="ml-3 flex-shrink-0 px-1.5 py-0.5 text-xs font-mono text-gray-500 bg-gray-100 border border-gray-200 rounded">
+                    {formatBinding(action.shortcut)}
+                  </kbd>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>,
+    document.body
+  );
+});
+
+CommandPalette.displayName = 'CommandPalette';
@@ -0,0 +1,214 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { checkHealth } from '../api/FastAPIClient';
+import { getApiBaseUrl } from '../api/httpClient';
+import { ConditionalTooltip } from '../utils/uiUtils';
+import {
+  type ConnectionProfile,
+  DEFAULT_PROFILE_ID,
+  getDefaultProfile,
+  loadProfiles,
+  addProfile,
+  updateProfile,
+  removeProfile,
+  getActiveProfileId,
+  activateProfile,
+  isValidBaseUrl,
+  normalizeBaseUrl,
+} from '../utils/connectionProfiles';
+
+type HealthState = 'checking' | 'up' | 'down';
+
+const healthStyles: Record<HealthState, { dot: string; label: string }> = {
+  checking: { dot: 'bg-gray-300 animate-pulse', label: 'Checking...' },
+  up: { dot: 'bg-green-500', label: 'Healthy' },
+  down: { dot: 'bg-red-500', label: 'Unreachable' },
+};
+
+export const ConnectionProfiles: React.FC = React.memo(() => {
+  const [profiles, setProfiles] = useState<ConnectionProfile[]>(() => loadProfiles());
+  const [health, setHealth] = useState<Record<string, HealthState>>({});
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [baseUrl, setBaseUrl] = useState('');
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const activeId = getActiveProfileId();
+  const allProfiles = [getDefaultProfile(), ...profiles];
+
+  const runHealthCheck = useCallback(async (profile: ConnectionProfile) => {
+    setHealth(prev => ({ ...prev, [profile.id]: 'checking' }));
+    const ok = await checkHealth(profile.baseUrl);
+    setHealth(prev => ({ ...prev, [profile.id]: ok ? 'up' : 'down' }));
+  }, []);
+
+  // Check every profile once when the panel mounts
+  useEffect(() => {
+    [getDefaultProfile(), ...loadProfiles()].forEach(runHealthCheck);
+  }, [runHealthCheck]);
+
+  const resetForm = () => {
+    setEditingId(null);
+    setName('');
+    setBaseUrl('');
+    setFormError(null);
+  };
+
+  const startEdit = (profile: ConnectionProfile) => {
+    setEditingId(profile.id);
+    setName(profile.name);
+    setBaseUrl(profile.baseUrl);
+    setFormError(null);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValidBaseUrl(baseUrl)) {
+      setFormError('Enter a full http(s) URL, e.g. http://192.168.1.20:8080');
+      return;
+    }
+    const wasActive = editingId !== null && editingId === activeId;
+    const next = editingId
+      ? updateProfile(editingId, { name: name.trim() || normalizeBaseUrl(baseUrl), baseUrl })
+      : addProfile(name, baseUrl);
+    setProfiles(next);
+    const saved = editingId ? next.find(p => p.id === editingId) : next[next.length - 1];
+    resetForm();
+    if (wasActive) {
+      window.location.reload();
+      return;
+    }
+    if (saved) runHealthCheck(saved);
+  };
+
+  const handleDelete = (profile: ConnectionProfile) => {
+    if (!window.confirm(`Delete connection "${profile.name}"?`)) return;
+    const wasActive = profile.id === activeId;
+    setProfiles(removeProfile(profile.id));
+    if (editingId === profile.id) resetForm();
+    if (wasActive) window.location.reload();
+  };
+
+  const handleSwitch = (profile: ConnectionProfile) => {
+    if (profile.id === activeId) return;
+    if (!window.confirm(`Switch backend to "${profile.name}" (${profile.baseUrl})? The app will reload.`)) return;
+    activateProfile(profile.id);
+    window.location.reload();
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="text-xs text-gray-600">
+        Active backend: <span className="font-mono break-all">{getApiBaseUrl()}</span>
+      </div>
+
+      <ul className="space-y-1">
+        {allProfiles.map((profile) => {
+          const isActive = profile.id === activeId;
+          const state = health[profile.id];
+          return (
+            <li
+              key={profile.id}
+              className={`rounded border px-2 py-1.5 ${isActive ? 'bg-blue-50 border-blue-300' : 'bg-surface border-gray-200'}`}
+            >
+              <div className="flex items-center justify-between space-x-2">
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center space-x-1.5">
+                    <span
+                      className={`inline-block w-2 h-2 rounded-full flex-shrink-0 ${state ? healthStyles[state].dot : 'bg-gray-300'}`}
+                      title={state ? healthStyles[state].label : 'Not checked'}
+                    ></span>
+                    <span className={`truncate text-sm ${isActive ? 'font-medium text-blue-800' : 'text-gray-800'}`}>{profile.name}</span>
+                    {isActive && <span className="text-[10px] uppercase tracking-wide text-blue-600">Active</span>}
+                  </div>
+                  <div className="text-xs text-gray-500 font-mono truncate" title={profile.baseUrl}>{profile.baseUrl}</div>
+                </div>
+                <div className="flex items-center space-x-1 flex-shrink-0">
+                  <button
+                    onClick={() => runHealthCheck(profile)}
+                    disabled={state === 'checking'}
+                    className="px-1.5 py-0.5 text-xs text-gray-600 border border-gray-300 rounded hover:bg-gray-100 disabled:opacity-50"
+                    title="Run a health check against this backend"
+                  >
+                    Check
+                  </button>
+                  {!isActive && (
+                    <button
+                      onClick={() => handleSwitch(profile)}
+                      className="px-1.5 py-0.5 text-xs text-white bg-blue-600 rounded hover:bg-blue-700"
+                      title="Use this backend"
+                    >
+                      Use
+                    </button>
+                  )}
+                  {profile.id !== DEFAULT_PROFILE_ID && (
+                    <>
+                      <button
+                        onClick={() => startEdit(profile)}
+                        className="p-1 text-gray-400 hover:text-gray-700 rounded"
+                        title="Edit connection"
+                      >
+                        <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536M9 13l6.232-6.232a2.5 2.5 0 113.536 3.536L12.536 16.536a4 4 0 01-1.414.94L7 19l1.524-4.122A4 4 0 019 13z" />
+                        </svg>
+                      </button>
+                      <button
+                        onClick={() => handleDelete(profile)}
+                        className="p-1 text-gray-400 hover:text-red-600 rounded"
+                        title="Delete connection"
+                      >
+                        <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                        </svg>
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+
+      <form onSubmit={handleSubmit} className="space-y-2 border-t border-gray-200 pt-2">
+        <div className="text-xs font-medium text-gray-700">{editingId ? 'Edit connection' : 'Add connection'}</div>
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Name (e.g. Staging)"
+          className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-600"
+        />
+        <input
+          type="url"
+          value={baseUrl}
+          onChange={(e) => { setBaseUrl(e.target.value); setFormError(null); }}
+          placeholder="http://192.168.1.20:8080"
+          className="w-full px-2 py-1 text-sm font-mono border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-600"
+        />
+        {formError && <div className="text-xs text-red-600">{formError}</div>}
+        <div className="flex space-x-2">
+          <ConditionalTooltip content="Saved connections are stored in this browser. Switching reloads the app against the selected backend.">
+            <button
+              type="submit"
+              disabled={!baseUrl.trim()}
+              className="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {editingId ? 'Save' : 'Add'}
+            </button>
+          </ConditionalTooltip>
+          {editingId && (
+            <button
+              type="button"
+              onClick={resetForm}
+              className="px-3 py-1 text-sm text-gray-700 border border-gray-300 rounded hover:bg-gray-100"
+            >
+              Cancel
+            </button>
+          )}
+        </div>
+      </form>
+    </div>
+  );
+});
+
+ConnectionProfiles.displayName = 'ConnectionProfiles';
@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import { useAppContext } from '../context/AppContext';
+import { ConditionalTooltip } from '../utils/uiUtils';
+
+const formatUpdatedAt = (timestamp: number) => {
+  const date = new Date(timestamp);
+  const today = new Date();
+  if (date.toDateString() === today.toDateString()) {
+    return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  }
+  return date.toLocaleDateString([], { month: 'short', day: 'numeric' });
+};
+
+export const ConversationList: React.FC = React.memo(() => {
+  const {
+    conversations,
+    conversationStoreError,
+    activeConversation,
+    isLoading,
+    createConversation,
+    switchConversation,
+    renameConversation,
+    deleteConversation,
+  } = useAppContext();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingTitle, setEditingTitle] = useState('');
+
+  const startRename = (id: string, title: string) => {
+    setEditingId(id);
+    setEditingTitle(title);
+  };
+
+  const commitRename = async () => {
+    if (!editingId) return;
+    const id = editingId;
+    setEditingId(null);
+    await renameConversation(id, editingTitle);
+  };
+
+  const handleDelete = async (id: string, title: string) => {
+    if (!window.confirm(`Delete "${title}"? This cannot be undone.`)) return;
+    await deleteConversation(id);
+  };
+
+  return (
+    <div className="space-y-2">
+      <ConditionalTooltip content="Start a new conversation with its own session, memory and model selection.">
+        <button
+          onClick={() => createConversation()}
+          disabled={isLoading}
+          className="w-full px-3 py-2 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          + New Conversation
+        </button>
+      </ConditionalTooltip>
+
+      {conversationStoreError && (
+        <div className="p-2 text-xs text-red-700 bg-red-50 border border-red-200 rounded">{conversationStoreError}</div>
+      )}
+
+      {conversations.length === 0 ? (
+        <div className="text-xs text-gray-500 text-center">No saved conversations</div>
+      ) : (
+        <ul className="space-y-1 max-h-64 overflow-y-auto pr-1">
+          {conversations.map((conversation) => {
+            const isActive = conversation.id === activeConversation?.id;
+            return (
+              <li
+                key={conversation.id}
+                className={`group rounded border px-2 py-1.5 ${isActive ? 'bg-blue-50 border-blue-300' : 'bg-surface border-gray-200 hover:bg-gray-50'}`}
+              >
+                {editingId === conversation.id ? (
+                  <input
+                    autoFocus
+                    value={editingTitle}
+                    onChange={(e) => setEditingTitle(e.target.value)}
+                    onBlur={commitRename}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitRename();
+                      if (e.key === 'Escape') setEditingId(null);
+                    }}
+                    className="w-full px-1 py-0.5 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-600"
+                  />
+                ) : (
+                  <div className="flex items-center justify-between space-x-2">
+                    <button
+                      onClick={() => switchConversation(conversation.id)}
+                      disabled={isLoading && !isActive}
+                      className="min-w-0 flex-1 text-left disabled:cursor-not-allowed"
+                      title={conversation.title}
+                    >
+                      <div className={`truncate text-sm ${isActive ? 'font-medium text-blue-800' : 'text-gray-800'}`}>{conversation.title}</div>
+                      <div className="text-xs text-gray-500">
+                        {formatUpdatedAt(conversation.updatedAt)} · {conversation.messageCount} message{conversation.messageCount === 1 ? '' : 's'}
+                      </div>
+                    </button>
+                    <div className="flex items-center space-x-1 flex-shrink-0">
+                      <button
+                        onClick={() => startRename(conversation.id, conversation.title)}
+                        className="p-1 text-gray-400 hover:text-gray-700 rounded"
+                        title="Rename conversation"
+                      >
+                        <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536M9 13l6.232-6.232a2.5 2.5 0 113.536 3.536L12.536 16.536a4 4 0 01-1.414.94L7 19l1.524-4.122A4 4 0 019 13z" />
+                        </svg>
+                      </button>
+                      <button
+                        onClick={() => handleDelete(conversation.id, conversation.title)}
+                        disabled={isLoading}
+                        className="p-1 text-gray-400 hover:text-red-600 rounded disabled:opacity-50 disabled:cursor-not-allowed"
+                        title="Delete conversation"
+                      >
+                        <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                        </svg>
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+});
+
+ConversationList.displayName = 'ConversationList';
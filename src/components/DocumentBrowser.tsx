@@ -0,0 +1,94 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { listRagSources, type RagSourceInfo } from '../api/RagClient';
+import { formatBytes, formatDateTime, fileExtension } from '../utils/format';
+import { Tooltip } from './Tooltip';
+import { SourceChunksPanel } from './SourceChunksPanel';
+
+interface DocumentBrowserProps {
+  sessionId?: string;
+  // Source names from the session status; also used when detailed metadata is unavailable
+  sources: string[];
+  chunkCount: number;
+  busy: boolean;
+  onClearSource: (sourceName: string) => void;
+}
+
+/**
+ * Knowledge base sources with their metadata and a chunk inspector per source
+ */
+export const DocumentBrowser: React.FC<DocumentBrowserProps> = React.memo(({ sessionId, sources, chunkCount, busy, onClearSource }) => {
+  const [details, setDetails] = useState<Record<string, RagSourceInfo>>({});
+  const [browsing, setBrowsing] = useState<string | null>(null);
+
+  // Reload metadata whenever the set of sources changes
+  const sourcesKey = sources.join('\n');
+  useEffect(() => {
+    if (!sourcesKey) return;
+    let stale = false;
+    listRagSources(sessionId)
+      .then(list => {
+        if (!stale) setDetails(Object.fromEntries(list.map(info => [info.sourceName, info])));
+      })
+      .catch(error => console.error('Failed to load source details:', error));
+    return () => { stale = true; };
+  }, [sessionId, sourcesKey]);
+
+  const closeBrowser = useCallback(() => setBrowsing(null), []);
+
+  return (
+    <div className="border border-blue-200 rounded bg-surface">
+      <div className="p-3 border-b border-blue-200">
+        <div className="text-sm font-medium text-blue-800 mb-1">Sources</div>
+        <div className="text-xs text-blue-600">
+          {chunkCount} chunks from {sources.length} document{sources.length > 1 ? 's' : ''}
+        </div>
+      </div>
+      <ul className="p-2 space-y-2">
+        {sources.map((source, index) => {
+          const info = details[source];
+          const fileType = info?.fileType || fileExtension(source);
+          return (
+            <li key={`${source}-${index}`} className="border border-gray-200 rounded-md px-2 py-1.5 shadow-sm">
+              <div className="flex items-center justify-between space-x-2">
+                <div className="min-w-0 flex-1 text-xs font-mono font-medium text-gray-700 truncate" title={source || 'No filename'}>
+                  {source || 'No filename'}
+                </div>
+                {fileType && (
+                  <span className="flex-shrink-0 px-1 py-0.5 text-[10px] uppercase bg-gray-100 text-gray-600 rounded">{fileType}</span>
+                )}
+              </div>
+              <div className="mt-0.5 flex flex-wrap gap-x-2 text-[11px] text-gray-500">
+                {info && <span>{info.chunkCount} chunk{info.chunkCount === 1 ? '' : 's'}</span>}
+                {info?.sizeBytes !== undefined && <span>{formatBytes(info.sizeBytes)}</span>}
+                {info?.uploadedAt !== undefined && <span>{formatDateTime(info.uploadedAt)}</span>}
+              </div>
+              <div className="mt-1 flex justify-end space-x-1">
+                <Tooltip content={`Page through and search the text extracted from ${source}`}>
+                  <button
+                    onClick={() => setBrowsing(source)}
+                    className="px-2 py-0.5 text-[11px] font-medium text-blue-700 border border-blue-300 rounded hover:bg-blue-50"
+                  >
+                    Browse
+                  </button>
+                </Tooltip>
+                <Tooltip content={`Remove all chunks from ${source}`}>
+                  <button
+                    onClick={() => onClearSource(source)}
+                    disabled={busy}
+                    className="px-2 py-0.5 text-[11px] font-medium text-white bg-red-500 rounded hover:bg-red-600 disabled:opacity-60 disabled:cursor-not-allowed"
+                  >
+                    Clear
+                  </button>
+                </Tooltip>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+
+      {browsing && <SourceChunksPanel sourceName={browsing} sessionId={sessionId} onClose={closeBrowser} />}
+    </div>
+  );
+});
+
+DocumentBrowser.displayName = 'DocumentBrowser';
@@ -0,0 +1,53 @@
+import React from 'react';
+import { getEncryptionProblem, type ExportEncryption } from '../utils/exportCrypto';
+
+interface ExportEncryptionFieldsProps {
+  value: ExportEncryption;
+  onChange: (value: ExportEncryption) => void;
+}
+
+/**
+ * "Encrypt with passphrase" toggle and passphrase inputs shared by export forms
+ */
+export const ExportEncryptionFields: React.FC<ExportEncryptionFieldsProps> = React.memo(({ value, onChange }) => {
+  const problem = getEncryptionProblem(value);
+  const inputClass = 'w-full px-2 py-1 text-xs border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-600';
+
+  return (
+    <div className="space-y-1.5">
+      <label className="flex items-center space-x-2 text-xs text-gray-700">
+        <input
+          type="checkbox"
+          checked={value.enabled}
+          onChange={(e) => onChange({ ...value, enabled: e.target.checked })}
+          className="h-3.5 w-3.5"
+        />
+        <span>🔒 Encrypt with passphrase</span>
+      </label>
+      {value.enabled && (
+        <>
+          <input
+            type="password"
+            value={value.passphrase}
+            onChange={(e) => onChange({ ...value, passphrase: e.target.value })}
+            placeholder="Passphrase"
+            autoComplete="new-password"
+            className={inputClass}
+          />
+          <input
+            type="password"
+            value={value.confirm}
+            onChange={(e) => onChange({ ...value, confirm: e.target.value })}
+            placeholder="Confirm passphrase"
+            autoComplete="new-password"
+            className={inputClass}
+          />
+          {problem && (value.passphrase || value.confirm) && <p className="text-xs text-amber-700">{problem}</p>}
+          <p className="text-xs text-gray-500">The passphrase can't be recovered. Share it separately from the file.</p>
+        </>
+      )}
+    </div>
+  );
+});
+
+ExportEncryptionFields.displayName = 'ExportEncryptionFields';
@@ -0,0 +1,102 @@
+import React, { useEffect } from 'react';
+import { createPortal } from 'react-dom';
+import { hasBlockingIssues, type MemoryImportPreview } from '../utils/memorySchema';
+
+interface MemoryImportDialogProps {
+  fileName: string;
+  preview: MemoryImportPreview;
+  isImporting: boolean;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * Confirmation dialog for a memory import: what the file contains and any validation problems
+ */
+export const MemoryImportDialog: React.FC<MemoryImportDialogProps> = React.memo(({ fileName, preview, isImporting, onConfirm, onCancel }) => {
+  const { memory, issues } = preview;
+  const blocked = hasBlockingIssues(preview);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && !isImporting) onCancel();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onCancel, isImporting]);
+
+  const stats = [
+    { label: 'Turns', value: Array.isArray(memory.turns) ? memory.turns.length : 0 },
+    { label: 'Items', value: Array.isArray(memory.items) ? memory.items.length : 0 },
+    { label: 'Summary', value: typeof memory.summary === 'string' && memory.summary ? `${memory.summary.length} chars` : '—' },
+  ];
+
+  // Portal out of the sidebar so its overflow and transforms don't clip the dialog
+  return createPortal(
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4" role="dialog" aria-label="Import memory">
+      <div className="absolute inset-0 bg-black/20" onClick={isImporting ? undefined : onCancel}></div>
+      <div className="relative w-full max-w-md max-h-full bg-surface rounded-lg border border-gray-200 shadow-xl flex flex-col">
+        <div className="px-4 py-3 border-b border-gray-200">
+          <div className="text-sm font-medium text-gray-800">Import memory</div>
+          <div className="text-xs text-gray-500 break-all">{fileName}</div>
+        </div>
+
+        <div className="px-4 py-3 space-y-3 overflow-y-auto">
+          <div className="grid grid-cols-3 gap-2">
+            {stats.map(({ label, value }) => (
+              <div key={label} className="rounded border border-gray-200 bg-gray-50 px-2 py-1.5 text-center">
+                <div className="text-sm font-semibold text-gray-800">{value}</div>
+                <div className="text-xs text-gray-500">{label}</div>
+              </div>
+            ))}
+          </div>
+
+          <div className="text-xs text-gray-600">
+            Format <span className="font-mono">{preview.sourceVersion}</span>
+            {preview.migrated && <> — will be migrated to <span className="font-mono">{memory.meta?.version}</span></>}
+          </div>
+
+          {issues.length > 0 ? (
+            <ul className="space-y-1 text-xs max-h-48 overflow-y-auto">
+              {issues.map((issue, i) => (
+                <li
+                  key={i}
+                  className={`rounded px-2 py-1 ${issue.severity === 'error' ? 'bg-red-50 text-red-700' : 'bg-amber-50 text-amber-800'}`}
+                >
+                  {issue.path && <span className="font-mono">{issue.path}: </span>}
+                  {issue.message}
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <div className="text-xs text-green-700">✅ No problems found</div>
+          )}
+
+          <p className="text-xs text-gray-500">Importing replaces the current session memory. A snapshot is taken first.</p>
+        </div>
+
+        <div className="px-4 py-3 border-t border-gray-200 flex justify-end space-x-2">
+          <button
+            type="button"
+            onClick={onCancel}
+            disabled={isImporting}
+            className="px-3 py-1.5 text-sm text-gray-600 border border-gray-300 rounded hover:bg-gray-100 disabled:opacity-50"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={onConfirm}
+            disabled={blocked || isImporting}
+            className="px-3 py-1.5 text-sm text-white bg-blue-600 rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isImporting ? 'Importing...' : 'Import'}
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+});
+
+MemoryImportDialog.displayName = 'MemoryImportDialog';
@@ -0,0 +1,219 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { exportSessionMemory, importSessionMemory, type MemoryItem, type SessionMemory } from '../api/FastAPIClient';
+import { ConditionalTooltip } from '../utils/uiUtils';
+import { readStoredMemory } from '../utils/sessionMemory';
+import { takeSnapshot } from '../utils/memorySnapshots';
+
+interface MemoryInspectorProps {
+  sessionId: string;
+  onMemoryImport: (memoryToken?: string, memoryChunks?: string[]) => void;
+  // Called after the pre-save snapshot is stored
+  onSnapshot?: () => void;
+  // Changes when memory was replaced elsewhere (import, clear, restore) to reload the draft
+  refreshKey?: number;
+}
+
+// Most important first, then most recently used
+const compareItems = (a: MemoryItem, b: MemoryItem) =>
+  b.importance - a.importance || Date.parse(b.lastAccessedAt || b.createdAt) - Date.parse(a.lastAccessedAt || a.createdAt);
+
+/**
+ * View and edit long-term memory items and the rolling summary. Edits are kept as a
+ * draft and saved by applying them to the current memory and importing it back.
+ */
+export const MemoryInspector: React.FC<MemoryInspectorProps> = React.memo(({ sessionId, onMemoryImport, onSnapshot, refreshKey }) => {
+  const [memory, setMemory] = useState<SessionMemory | null>(null);
+  const [items, setItems] = useState<MemoryItem[]>([]);
+  const [summary, setSummary] = useState('');
+  // Items changed or deleted in the draft; everything else is taken from memory at save time
+  const [editedIds, setEditedIds] = useState<Set<string>>(() => new Set());
+  const [summaryEdited, setSummaryEdited] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState('');
+
+  const load = useCallback(async () => {
+    if (!sessionId) return;
+    setLoading(true);
+    setMessage('');
+    try {
+      const stored = readStoredMemory(sessionId);
+      const data = await exportSessionMemory(sessionId, stored?.token, stored?.chunks);
+      setMemory(data);
+      setItems(data.items ?? []);
+      setSummary(data.summary ?? '');
+      setEditedIds(new Set());
+      setSummaryEdited(false);
+      setEditingId(null);
+    } catch (error) {
+      setMessage(`❌ ${error instanceof Error ? error.message : 'Failed to load memory'}`);
+    } finally {
+      setLoading(false);
+    }
+  }, [sessionId]);
+
+  useEffect(() => {
+    load();
+  }, [load, refreshKey]);
+
+  const dirty = editedIds.size > 0 || summaryEdited;
+  const markEdited = (id: string) => setEditedIds(prev => new Set(prev).add(id));
+
+  const sortedItems = useMemo(() => [...items].sort(compareItems), [items]);
+
+  const updateItem = (id: string, changes: Partial<MemoryItem>) => {
+    setItems(prev => prev.map(item => item.id === id ? { ...item, ...changes } : item));
+    markEdited(id);
+  };
+
+  const deleteItem = (id: string) => {
+    setItems(prev => prev.filter(item => item.id !== id));
+    markEdited(id);
+  };
+
+  const handleSave = async () => {
+    if (!memory) return;
+    setSaving(true);
+    setMessage('');
+    try {
+      await takeSnapshot(sessionId, 'edit');
+      onSnapshot?.();
+      // Memory may have grown since the draft was loaded, so apply only the edits to a fresh copy
+      const stored = readStoredMemory(sessionId);
+      const current = await exportSessionMemory(sessionId, stored?.token, stored?.chunks);
+      const drafts = new Map(items.map(item => [item.id, item]));
+      const result = await importSessionMemory({
+        ...current,
+        sessionId,
+        items: (current.items ?? [])
+          .flatMap(item => {
+            if (!editedIds.has(item.id)) return [item];
+            const draft = drafts.get(item.id);
+            return draft ? [draft] : [];
+          })
+          .filter(item => item.text.trim()),
+        summary: summaryEdited ? summary : current.summary,
+      });
+      onMemoryImport(result.memoryToken, result.memoryChunks);
+      await load();
+      setMessage('✅ Memory saved');
+    } catch (error) {
+      setMessage(`❌ Save failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between text-xs text-gray-600">
+        <span>{items.length} item{items.length === 1 ? '' : 's'}{memory?.turns ? ` · ${memory.turns.length} recent turns` : ''}</span>
+        <button
+          type="button"
+          onClick={load}
+          disabled={loading || saving}
+          className="px-2 py-0.5 border border-gray-300 rounded hover:bg-gray-100 disabled:opacity-50"
+        >
+          {loading ? 'Loading...' : 'Refresh'}
+        </button>
+      </div>
+
+      <div>
+        <label className="block text-xs font-medium text-gray-700 mb-1" htmlFor={`memory-summary-${sessionId}`}>Summary</label>
+        <textarea
+          id={`memory-summary-${sessionId}`}
+          value={summary}
+          onChange={(e) => { setSummary(e.target.value); setSummaryEdited(true); }}
+          rows={3}
+          placeholder="No summary yet"
+          className="w-full px-2 py-1 text-xs border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-600 resize-y"
+        />
+      </div>
+
+      {sortedItems.length === 0 ? (
+        <div className="text-xs text-gray-500 text-center">No long-term memory items</div>
+      ) : (
+        <ul className="space-y-2 max-h-80 overflow-y-auto pr-1">
+          {sortedItems.map(item => (
+            <li key={item.id} className="border border-gray-200 rounded bg-surface p-2 text-xs">
+              <div className="flex items-center justify-between space-x-2">
+                <span className="px-1.5 py-0.5 bg-blue-50 text-blue-700 rounded">{item.kind}</span>
+                <div className="flex items-center space-x-1">
+                  <ConditionalTooltip content="Importance: higher values are recalled first.">
+                    <input
+                      type="number"
+                      step={0.1}
+                      min={0}
+                      value={item.importance}
+                      onChange={(e) => updateItem(item.id, { importance: Number(e.target.value) })}
+                      className="w-14 px-1 py-0.5 border border-gray-300 rounded text-right"
+                      aria-label="Importance"
+                    />
+                  </ConditionalTooltip>
+                  <button
+                    type="button"
+                    onClick={() => setEditingId(editingId === item.id ? null : item.id)}
+                    className="p-1 text-gray-400 hover:text-gray-700 rounded"
+                    title="Edit text"
+                  >
+                    <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536M9 13l6.232-6.232a2.5 2.5 0 113.536 3.536L12.536 16.536a4 4 0 01-1.414.94L7 19l1.524-4.122A4 4 0 019 13z" />
+                    </svg>
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => deleteItem(item.id)}
+                    className="p-1 text-gray-400 hover:text-red-600 rounded"
+                    title="Delete item"
+                  >
+                    <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                    </svg>
+                  </button>
+                </div>
+              </div>
+              {editingId === item.id ? (
+                <textarea
+                  autoFocus
+                  value={item.text}
+                  onChange={(e) => updateItem(item.id, { text: e.target.value })}
+                  onKeyDown={(e) => { if (e.key === 'Escape') setEditingId(null); }}
+                  rows={3}
+                  className="mt-1 w-full px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-600 resize-y"
+                />
+              ) : (
+                <div className="mt-1 text-gray-800 whitespace-pre-wrap break-words">{item.text}</div>
+              )}
+              <div className="mt-1 text-[10px] text-gray-400">
+                Last used {new Date(item.lastAccessedAt || item.createdAt).toLocaleString()}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex space-x-2">
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={!dirty || saving || !memory}
+          className="flex-1 px-3 py-1.5 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {saving ? 'Saving...' : 'Save Changes'}
+        </button>
+        <button
+          type="button"
+          onClick={load}
+          disabled={!dirty || saving}
+          className="px-3 py-1.5 text-sm text-gray-700 border border-gray-300 rounded hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Discard
+        </button>
+      </div>
+      {message && <p className="text-xs text-gray-600 break-words">{message}</p>}
+    </div>
+  );
+});
+
+MemoryInspector.displayName = 'MemoryInspector';
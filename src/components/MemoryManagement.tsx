@@ -1,8 +1,23 @@
-import React, { useState } from 'react';
-import { exportSessionMemory, importSessionMemory, clearLongTermMemoryEndpoint, clearAllMemoryEndpoint, type SessionMemory } from '../api/FastAPIClient';
+import React, { useCallback, useState } from 'react';
+import { importSessionMemory, clearLongTermMemoryEndpoint, clearAllMemoryEndpoint } from '../api/FastAPIClient';
 import { useSettings } from '../context/SettingsContext';
 import { ConditionalTooltip } from '../utils/uiUtils';
 import { CollapsibleGroup } from './CollapsibleGroup';
+import { MemoryInspector } from './MemoryInspector';
+import { MemorySnapshots } from './MemorySnapshots';
+import { takeSnapshot, type SnapshotReason } from '../utils/memorySnapshots';
+import { prepareMemoryImport, type MemoryImportPreview } from '../utils/memorySchema';
+import { MemoryImportDialog } from './MemoryImportDialog';
+import { exportMemoryToFile } from '../utils/sessionMemory';
+import { ExportEncryptionFields } from './ExportEncryptionFields';
+import {
+  DEFAULT_EXPORT_ENCRYPTION,
+  decryptJson,
+  getEncryptionProblem,
+  isEncryptedExport,
+  type EncryptedExport,
+  type ExportEncryption,
+} from '../utils/exportCrypto';
 
 interface MemoryManagementProps {
   sessionId: string;
@@ -21,6 +36,26 @@ export const MemoryManagement: React.FC<MemoryManagementProps> = React.memo(({
   const [exportMessage, setExportMessage] = useState<string>('');
   const [importMessage, setImportMessage] = useState<string>('');
   const [clearMessage, setClearMessage] = useState<string>('');
+  const [snapshotVersion, setSnapshotVersion] = useState(0);
+  // Bumped whenever this panel replaces the session memory, so the inspector reloads
+  const [memoryVersion, setMemoryVersion] = useState(0);
+  const [pendingImport, setPendingImport] = useState<{ fileName: string; preview: MemoryImportPreview } | null>(null);
+  const [exportEncryption, setExportEncryption] = useState<ExportEncryption>(DEFAULT_EXPORT_ENCRYPTION);
+  // Encrypted file waiting for its passphrase
+  const [lockedImport, setLockedImport] = useState<{ fileName: string; envelope: EncryptedExport } | null>(null);
+  const [importPassphrase, setImportPassphrase] = useState('');
+  const [isDecrypting, setIsDecrypting] = useState(false);
+
+  // Throws if the snapshot fails so the destructive action is skipped
+  const snapshotBefore = async (reason: SnapshotReason) => {
+    await takeSnapshot(sessionId, reason);
+    setSnapshotVersion(v => v + 1);
+  };
+
+  const handleMemoryReplaced = (memoryToken?: string, memoryChunks?: string[]) => {
+    onMemoryImport(memoryToken, memoryChunks);
+    setMemoryVersion(v => v + 1);
+  };
 
   const handleExport = async () => {
     if (!sessionId) {
@@ -32,34 +67,9 @@ export const MemoryManagement: React.FC<MemoryManagementProps> = React.memo(({
     setExportMessage('');
 
     try {
-      // Get current memory tokens from localStorage
-      const memKey = `mem:${sessionId}`;
-      const raw = localStorage.getItem(memKey);
-      let memory: { token?: string; chunks?: string[] } | undefined;
-      if (raw) {
-        try {
-          memory = JSON.parse(raw);
-        } catch (e) {
-          // If parsing fails, continue without memory tokens
-        }
-      }
+      await exportMemoryToFile(sessionId, exportEncryption);
 
-      const memoryData = await exportSessionMemory(sessionId, memory?.token, memory?.chunks);
-
-      // Create and download the JSON file
-      const blob = new Blob([JSON.stringify(memoryData, null, 2)], {
-        type: 'application/json',
-      });
-      const url = URL.createObjectURL(blob);
-      const link = document.createElement('a');
-      link.href = url;
-      link.download = `session-memory-${sessionId}.json`;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      URL.revokeObjectURL(url);
-
-      setExportMessage('✅ Memory exported successfully');
+      setExportMessage(exportEncryption.enabled ? '✅ Memory exported and encrypted' : '✅ Memory exported successfully');
     } catch (error) {
       setExportMessage(`❌ Export failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     } finally {
@@ -67,8 +77,11 @@ export const MemoryManagement: React.FC<MemoryManagementProps> = React.memo(({
     }
   };
 
+  // Parse and validate the file, then wait for confirmation in the preview dialog
   const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
+    // Reset so the same file can be picked again after cancelling
+    event.target.value = '';
     if (!file) return;
 
     if (!file.name.toLowerCase().endsWith('.json')) {
@@ -76,28 +89,63 @@ export const MemoryManagement: React.FC<MemoryManagementProps> = React.memo(({
       return;
     }
 
-    setIsImporting(true);
     setImportMessage('');
+    setLockedImport(null);
+    try {
+      const parsed: unknown = JSON.parse(await file.text());
+      if (isEncryptedExport(parsed)) {
+        setImportPassphrase('');
+        setLockedImport({ fileName: file.name, envelope: parsed });
+        return;
+      }
+      setPendingImport({ fileName: file.name, preview: prepareMemoryImport(parsed, sessionId) });
+    } catch {
+      setImportMessage('❌ Import failed: file is not valid JSON');
+    }
+  };
+
+  const handleDecrypt = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!lockedImport) return;
 
+    setIsDecrypting(true);
+    setImportMessage('');
     try {
-      const fileContent = await file.text();
-      const memoryData: SessionMemory = JSON.parse(fileContent);
+      const decrypted = await decryptJson(lockedImport.envelope, importPassphrase);
+      setPendingImport({ fileName: lockedImport.fileName, preview: prepareMemoryImport(decrypted, sessionId) });
+      setLockedImport(null);
+      setImportPassphrase('');
+    } catch (error) {
+      setImportMessage(`❌ ${error instanceof Error ? error.message : 'Decryption failed'}`);
+    } finally {
+      setIsDecrypting(false);
+    }
+  };
 
-      const result = await importSessionMemory(memoryData);
+  const confirmImport = async () => {
+    if (!pendingImport) return;
+
+    setIsImporting(true);
+    setImportMessage('');
+
+    try {
+      if (sessionId) await snapshotBefore('import');
+      const result = await importSessionMemory(pendingImport.preview.memory);
 
       // Update the memory in the app context
-      onMemoryImport(result.memoryToken, result.memoryChunks);
+      handleMemoryReplaced(result.memoryToken, result.memoryChunks);
 
       setImportMessage('✅ Memory imported successfully');
     } catch (error) {
       setImportMessage(`❌ Import failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     } finally {
       setIsImporting(false);
-      // Reset file input
-      event.target.value = '';
+      setPendingImport(null);
     }
   };
 
+  const cancelImport = useCallback(() => setPendingImport(null), []);
+
   const handleClearLongTerm = async () => {
     if (!sessionId) {
       setClearMessage('No active session');
@@ -120,8 +168,9 @@ export const MemoryManagement: React.FC<MemoryManagementProps> = React.memo(({
         }
       }
 
+      await snapshotBefore('clear-long');
       const result = await clearLongTermMemoryEndpoint(sessionId, memory?.token, memory?.chunks);
-      onMemoryImport(result.memoryToken, result.memoryChunks);
+      handleMemoryReplaced(result.memoryToken, result.memoryChunks);
       setClearMessage('✅ Long-term memory cleared');
     } catch (error) {
       setClearMessage(`❌ Failed to clear long-term memory: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -140,8 +189,9 @@ export const MemoryManagement: React.FC<MemoryManagementProps> = React.memo(({
     setClearMessage('');
 
     try {
+      await snapshotBefore('clear-all');
       const result = await clearAllMemoryEndpoint(sessionId);
-      onMemoryImport(result.memoryToken, result.memoryChunks);
+      handleMemoryReplaced(result.memoryToken, result.memoryChunks);
       setClearMessage('✅ All memory cleared');
     } catch (error) {
       setClearMessage(`❌ Failed to clear all memory: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -193,11 +243,14 @@ export const MemoryManagement: React.FC<MemoryManagementProps> = React.memo(({
           <div>
             <button
               onClick={handleExport}
-              disabled={isExporting || !sessionId}
+              disabled={isExporting || !sessionId || getEncryptionProblem(exportEncryption) !== null}
               className="w-full px-3 py-2 text-sm bg-blue-100 text-blue-700 rounded hover:bg-blue-200 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
             >
               {isExporting ? 'Exporting...' : '📤 Export Memory'}
             </button>
+            <div className="mt-2">
+              <ExportEncryptionFields value={exportEncryption} onChange={setExportEncryption} />
+            </div>
             {exportMessage && (
               <p className="text-xs mt-1 text-gray-600 break-words">{exportMessage}</p>
             )}
@@ -214,13 +267,67 @@ export const MemoryManagement: React.FC<MemoryManagementProps> = React.memo(({
                 className="hidden"
               />
             </label>
+            {lockedImport && (
+              <form onSubmit={handleDecrypt} className="mt-2 space-y-1.5">
+                <p className="text-xs text-gray-600 break-all">🔒 {lockedImport.fileName} is encrypted</p>
+                <input
+                  type="password"
+                  autoFocus
+                  value={importPassphrase}
+                  onChange={(e) => setImportPassphrase(e.target.value)}
+                  placeholder="Passphrase"
+                  autoComplete="off"
+                  className="w-full px-2 py-1 text-xs border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-600"
+                />
+                <div className="flex space-x-2">
+                  <button
+                    type="submit"
+                    disabled={!importPassphrase || isDecrypting}
+                    className="flex-1 px-2 py-1 text-xs text-white bg-blue-600 rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {isDecrypting ? 'Decrypting...' : 'Decrypt'}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setLockedImport(null)}
+                    className="px-2 py-1 text-xs text-gray-600 border border-gray-300 rounded hover:bg-gray-100"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </form>
+            )}
             {importMessage && (
               <p className="text-xs mt-1 text-gray-600 break-words">{importMessage}</p>
             )}
+            {pendingImport && (
+              <MemoryImportDialog
+                fileName={pendingImport.fileName}
+                preview={pendingImport.preview}
+                isImporting={isImporting}
+                onConfirm={confirmImport}
+                onCancel={cancelImport}
+              />
+            )}
           </div>
         </div>
       </CollapsibleGroup>
 
+      {/* Inspector */}
+      <CollapsibleGroup title="Inspector" defaultExpanded={false}>
+        <MemoryInspector
+          sessionId={sessionId}
+          onMemoryImport={onMemoryImport}
+          onSnapshot={() => setSnapshotVersion(v => v + 1)}
+          refreshKey={memoryVersion}
+        />
+      </CollapsibleGroup>
+
+      {/* Snapshots */}
+      <CollapsibleGroup title="Snapshots" defaultExpanded={false}>
+        <MemorySnapshots sessionId={sessionId} onMemoryImport={handleMemoryReplaced} refreshKey={snapshotVersion} />
+      </CollapsibleGroup>
+
       {/* Clearing */}
       <CollapsibleGroup title="Clearing" defaultExpanded={false}>
         <div className="space-y-3">
@@ -0,0 +1,216 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  listSnapshots,
+  takeSnapshot,
+  restoreSnapshot,
+  deleteSnapshot,
+  diffMemory,
+  isEmptyDiff,
+  SNAPSHOT_REASON_LABELS,
+  type MemorySnapshot,
+} from '../utils/memorySnapshots';
+import { ConditionalTooltip } from '../utils/uiUtils';
+
+interface MemorySnapshotsProps {
+  sessionId: string;
+  onMemoryImport: (memoryToken?: string, memoryChunks?: string[]) => void;
+  // Bumped by the parent after it snapshots memory itself
+  refreshKey?: number;
+}
+
+const formatSnapshotTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+const snapshotLabel = (snapshot: MemorySnapshot) =>
+  `${formatSnapshotTime(snapshot.createdAt)} · ${SNAPSHOT_REASON_LABELS[snapshot.reason]}`;
+
+export const MemorySnapshots: React.FC<MemorySnapshotsProps> = React.memo(({ sessionId, onMemoryImport, refreshKey }) => {
+  const [snapshots, setSnapshots] = useState<MemorySnapshot[]>([]);
+  const [fromId, setFromId] = useState('');
+  const [toId, setToId] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState('');
+
+  const reload = useCallback(async () => {
+    if (!sessionId) return;
+    try {
+      const list = await listSnapshots(sessionId);
+      setSnapshots(list);
+      // Default to comparing the two most recent snapshots
+      setToId(prev => list.some(s => s.id === prev) ? prev : list[0]?.id ?? '');
+      setFromId(prev => list.some(s => s.id === prev) ? prev : list[1]?.id ?? '');
+    } catch (error) {
+      console.error('Failed to load memory snapshots:', error);
+    }
+  }, [sessionId]);
+
+  useEffect(() => {
+    reload();
+  }, [reload, refreshKey]);
+
+  const handleTake = async () => {
+    setBusy(true);
+    setMessage('');
+    try {
+      await takeSnapshot(sessionId, 'manual');
+      await reload();
+      setMessage('✅ Snapshot saved');
+    } catch (error) {
+      setMessage(`❌ Snapshot failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRestore = async (snapshot: MemorySnapshot) => {
+    if (!window.confirm(`Restore memory from ${formatSnapshotTime(snapshot.createdAt)}? The current memory is snapshotted first.`)) return;
+    setBusy(true);
+    setMessage('');
+    try {
+      const result = await restoreSnapshot(snapshot);
+      onMemoryImport(result.memoryToken, result.memoryChunks);
+      await reload();
+      setMessage('✅ Snapshot restored');
+    } catch (error) {
+      setMessage(`❌ Restore failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDelete = async (snapshot: MemorySnapshot) => {
+    setMessage('');
+    try {
+      await deleteSnapshot(snapshot.id);
+      await reload();
+    } catch (error) {
+      setMessage(`❌ Delete failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const from = snapshots.find(s => s.id === fromId);
+  const to = snapshots.find(s => s.id === toId);
+  const diff = useMemo(() => {
+    if (!from || !to) return null;
+    // Always diff older -> newer regardless of selection order
+    return from.createdAt <= to.createdAt ? diffMemory(from.memory, to.memory) : diffMemory(to.memory, from.memory);
+  }, [from, to]);
+
+  return (
+    <div className="space-y-3">
+      <ConditionalTooltip content="Snapshots are also taken automatically before clearing, importing, editing or restoring memory.">
+        <button
+          type="button"
+          onClick={handleTake}
+          disabled={busy || !sessionId}
+          className="w-full px-3 py-2 text-sm bg-blue-100 text-blue-700 rounded hover:bg-blue-200 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          📸 Take Snapshot
+        </button>
+      </ConditionalTooltip>
+
+      {snapshots.length === 0 ? (
+        <div className="text-xs text-gray-500 text-center">No snapshots yet</div>
+      ) : (
+        <ul className="space-y-1 max-h-56 overflow-y-auto pr-1">
+          {snapshots.map(snapshot => (
+            <li key={snapshot.id} className="border border-gray-200 rounded bg-surface px-2 py-1.5 text-xs">
+              <div className="text-gray-800">{formatSnapshotTime(snapshot.createdAt)}</div>
+              <div className="text-gray-500">
+                {SNAPSHOT_REASON_LABELS[snapshot.reason]} · {snapshot.memory.items?.length ?? 0} items · {snapshot.memory.turns?.length ?? 0} turns
+              </div>
+              <div className="mt-1 flex justify-end space-x-1">
+                <button
+                  type="button"
+                  onClick={() => handleRestore(snapshot)}
+                  disabled={busy}
+                  className="px-2 py-0.5 text-white bg-blue-600 rounded hover:bg-blue-700 disabled:opacity-50"
+                >
+                  Restore
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleDelete(snapshot)}
+                  disabled={busy}
+                  className="px-2 py-0.5 text-gray-600 border border-gray-300 rounded hover:bg-gray-100 disabled:opacity-50"
+                >
+                  Delete
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {snapshots.length >= 2 && (
+        <div className="space-y-2 border-t border-gray-200 pt-2">
+          <div className="text-xs font-medium text-gray-700">Compare</div>
+          {[{ value: fromId, set: setFromId, label: 'From' }, { value: toId, set: setToId, label: 'To' }].map(({ value, set, label }) => (
+            <select
+              key={label}
+              value={value}
+              onChange={(e) => set(e.target.value)}
+              className="w-full px-1 py-1 text-xs border border-gray-300 rounded bg-surface"
+              aria-label={`${label} snapshot`}
+            >
+              {snapshots.map(s => <option key={s.id} value={s.id}>{label}: {snapshotLabel(s)}</option>)}
+            </select>
+          ))}
+
+          {diff && (isEmptyDiff(diff) ? (
+            <div className="text-xs text-gray-500">No differences</div>
+          ) : (
+            <div className="space-y-1 text-xs max-h-72 overflow-y-auto pr-1">
+              {diff.summary && (
+                <div className="border border-amber-200 bg-amber-50 rounded p-1.5">
+                  <div className="font-medium text-amber-800">Summary changed</div>
+                  <div className="text-red-700 line-through whitespace-pre-wrap">{diff.summary.before || '(empty)'}</div>
+                  <div className="text-green-700 whitespace-pre-wrap">{diff.summary.after || '(empty)'}</div>
+                </div>
+              )}
+              {diff.items.added.map(item => (
+                <div key={`a-${item.id}`} className="border border-green-200 bg-green-50 rounded p-1.5 text-green-800">
+                  + [{item.kind}] {item.text}
+                </div>
+              ))}
+              {diff.items.removed.map(item => (
+                <div key={`r-${item.id}`} className="border border-red-200 bg-red-50 rounded p-1.5 text-red-800">
+                  − [{item.kind}] {item.text}
+                </div>
+              ))}
+              {diff.items.changed.map(({ before, after, fields }) => (
+                <div key={`c-${after.id}`} className="border border-amber-200 bg-amber-50 rounded p-1.5">
+                  <div className="text-amber-800">~ [{after.kind}] changed {fields.join(', ')}</div>
+                  {fields.includes('text') && (
+                    <>
+                      <div className="text-red-700 line-through">{before.text}</div>
+                      <div className="text-green-700">{after.text}</div>
+                    </>
+                  )}
+                  {fields.includes('importance') && (
+                    <div className="text-gray-600">Importance {before.importance} → {after.importance}</div>
+                  )}
+                </div>
+              ))}
+              {(diff.turns.added.length > 0 || diff.turns.removed.length > 0) && (
+                <div className="text-gray-600">
+                  Turns: +{diff.turns.added.length} / −{diff.turns.removed.length}
+                </div>
+              )}
+              {diff.turns.added.map((turn, i) => (
+                <div key={`ta-${i}`} className="text-green-700 truncate" title={turn.content}>+ {turn.role}: {turn.content}</div>
+              ))}
+              {diff.turns.removed.map((turn, i) => (
+                <div key={`tr-${i}`} className="text-red-700 truncate" title={turn.content}>− {turn.role}: {turn.content}</div>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {message && <p className="text-xs text-gray-600 break-words">{message}</p>}
+    </div>
+  );
+});
+
+MemorySnapshots.displayName = 'MemorySnapshots';
@@ -0,0 +1,132 @@
+import React, { useRef, useState } from 'react';
+import ReactMarkdown, { type Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import rehypeHighlight from 'rehype-highlight';
+import 'katex/dist/katex.min.css';
+import 'highlight.js/styles/github.css';
+
+interface MessageContentProps {
+  content: string;
+  isStreaming?: boolean;
+  // Render as plain text (user messages, indicators, errors)
+  plain?: boolean;
+}
+
+const CodeBlock = ({ children }: { children?: React.ReactNode }) => {
+  const preRef = useRef<HTMLPreElement>(null);
+  const [copied, setCopied] = useState(false);
+
+  // rehype-highlight keeps the language-* class on the inner <code>
+  const codeElement = React.Children.toArray(children).find(React.isValidElement) as React.ReactElement<{ className?: string }> | undefined;
+  const language = codeElement?.props.className?.match(/language-([\w-]+)/)?.[1];
+
+  const handleCopy = async () => {
+    const text = preRef.current?.innerText ?? '';
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (error) {
+      console.error('Failed to copy code block:', error);
+    }
+  };
+
+  return (
+    <div className="my-2 rounded border border-gray-200 bg-gray-50 overflow-hidden">
+      <div className="flex items-center justify-between px-2 py-1 text-xs text-gray-500 bg-gray-100 border-b border-gray-200">
+        <span className="font-mono">{language || 'text'}</span>
+        <button
+          type="button"
+          onClick={handleCopy}
+          className="px-1.5 py-0.5 rounded hover:bg-gray-200 hover:text-gray-700 transition-colors"
+          title="Copy code"
+        >
+          {copied ? 'Copied' : 'Copy'}
+        </button>
+      </div>
+      <pre ref={preRef} className="p-2 overflow-x-auto text-xs leading-relaxed">{children}</pre>
+    </div>
+  );
+};
+
+// Tailwind preflight resets element styles, so markdown elements are styled explicitly
+const markdownComponents: Components = {
+  pre: ({ children }) => <CodeBlock>{children}</CodeBlock>,
+  code: ({ className, children }) => (
+    className
+      ? <code className={className}>{children}</code>
+      : <code className="px-1 py-0.5 rounded bg-gray-100 font-mono text-[0.85em]">{children}</code>
+  ),
+  p: ({ children }) => <p className="my-1.5 first:mt-0 last:mb-0">{children}</p>,
+  ul: ({ children }) => <ul className="my-1.5 pl-5 list-disc space-y-0.5">{children}</ul>,
+  ol: ({ children }) => <ol className="my-1.5 pl-5 list-decimal space-y-0.5">{children}</ol>,
+  h1: ({ children }) => <h1 className="mt-3 mb-1.5 text-lg font-semibold">{children}</h1>,
+  h2: ({ children }) => <h2 className="mt-3 mb-1.5 text-base font-semibold">{children}</h2>,
+  h3: ({ children }) => <h3 className="mt-2 mb-1 text-sm font-semibold">{children}</h3>,
+  blockquote: ({ children }) => <blockquote className="my-2 pl-3 border-l-4 border-gray-300 text-gray-600">{children}</blockquote>,
+  a: ({ href, children }) => (
+    <a href={href} target="_blank" rel="noopener noreferrer" className="text-blue-600 underline hover:text-blue-800">{children}</a>
+  ),
+  table: ({ children }) => (
+    <div className="my-2 overflow-x-auto">
+      <table className="min-w-full text-xs border-collapse border border-gray-300">{children}</table>
+    </div>
+  ),
+  th: ({ children }) => <th className="px-2 py-1 border border-gray-300 bg-gray-100 text-left font-semibold">{children}</th>,
+  td: ({ children }) => <td className="px-2 py-1 border border-gray-300 align-top">{children}</td>,
+  hr: () => <hr className="my-3 border-gray-200" />,
+};
+
+/**
+ * Renders a chat message as GitHub-flavored markdown with highlighted code and KaTeX math.
+ * Raw HTML in model output is never parsed (no rehype-raw, skipHtml), and
+ * react-markdown's default urlTransform drops unsafe link protocols.
+ */
+export const MessageContent: React.FC<MessageContentProps> = React.memo(({ content, isStreaming, plain }) => {
+  const [showRaw, setShowRaw] = useState(false);
+
+  const cursor = isStreaming && (
+    <span className="inline-block w-1.5 h-4 ml-0.5 align-text-bottom bg-gray-400 animate-pulse" aria-hidden="true"></span>
+  );
+
+  if (plain) {
+    return (
+      <div className="text-sm whitespace-pre-wrap">
+        {content}
+        {cursor}
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative group min-w-0">
+      <button
+        type="button"
+        onClick={() => setShowRaw(prev => !prev)}
+        className="absolute -top-1 -right-2 px-1.5 py-0.5 text-[10px] text-gray-400 bg-surface border border-gray-200 rounded opacity-0 group-hover:opacity-100 focus:opacity-100 hover:text-gray-700 transition-opacity"
+        title={showRaw ? 'Show rendered markdown' : 'Show raw text'}
+      >
+        {showRaw ? 'Rendered' : 'Raw'}
+      </button>
+      {showRaw ? (
+        <div className="text-sm whitespace-pre-wrap font-mono">{content}{cursor}</div>
+      ) : (
+        <div className="text-sm break-words">
+          <ReactMarkdown
+            remarkPlugins={[remarkGfm, remarkMath]}
+            rehypePlugins={[rehypeKatex, rehypeHighlight]}
+            components={markdownComponents}
+            skipHtml
+          >
+            {content}
+          </ReactMarkdown>
+          {cursor}
+        </div>
+      )}
+    </div>
+  );
+});
+
+MessageContent.displayName = 'MessageContent';
@@ -0,0 +1,132 @@
+import React, { useEffect, useState } from 'react';
+import { getProviderModels, type Provider, type Model } from '../api/ProviderClient';
+import { useCompare, MIN_COMPARE_TARGETS, MAX_COMPARE_TARGETS, type CompareTarget } from '../context/compare';
+import { ConditionalTooltip } from '../utils/uiUtils';
+
+interface ModelCompareSetupProps {
+  providers: Provider[];
+  // Seed for new rows: the provider/model currently selected for chat
+  selectedProvider: string;
+  selectedModel: string;
+}
+
+interface CompareTargetRowProps {
+  target: CompareTarget;
+  providers: Provider[];
+  onChange: (target: CompareTarget) => void;
+  onRemove: () => void;
+}
+
+const selectClassName = 'w-full px-2 py-1 text-xs border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-600 bg-surface';
+
+const CompareTargetRow = ({ target, providers, onChange, onRemove }: CompareTargetRowProps) => {
+  const [models, setModels] = useState<Model[]>([]);
+
+  useEffect(() => {
+    if (!target.providerId) return;
+    let stale = false;
+    getProviderModels(target.providerId)
+      .then(response => { if (!stale) setModels(response.models || []); })
+      .catch(error => {
+        console.error('Failed to load models for comparison:', error);
+        if (!stale) setModels([]);
+      });
+    return () => { stale = true; };
+  }, [target.providerId]);
+
+  // Keep the saved model selectable even before the list has loaded
+  const modelOptions = models.some(m => m.id === target.modelId) || !target.modelId
+    ? models
+    : [{ id: target.modelId, name: target.modelId } as Model, ...models];
+
+  return (
+    <div className="flex items-center space-x-1">
+      <select
+        value={target.providerId}
+        onChange={(e) => onChange({ providerId: e.target.value, modelId: '' })}
+        className={selectClassName}
+        aria-label="Provider"
+      >
+        {!providers.some(p => p.id === target.providerId) && <option value={target.providerId}>{target.providerId || 'Provider'}</option>}
+        {providers.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+      </select>
+      <select
+        value={target.modelId}
+        onChange={(e) => onChange({ ...target, modelId: e.target.value })}
+        className={selectClassName}
+        aria-label="Model"
+      >
+        <option value="">Model...</option>
+        {modelOptions.map(m => <option key={m.id} value={m.id}>{m.name || m.id}</option>)}
+      </select>
+      <button
+        type="button"
+        onClick={onRemove}
+        className="p-1 text-gray-400 hover:text-red-600 rounded flex-shrink-0"
+        title="Remove from comparison"
+      >
+        <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+        </svg>
+      </button>
+    </div>
+  );
+};
+
+export const ModelCompareSetup: React.FC<ModelCompareSetupProps> = React.memo(({ providers, selectedProvider, selectedModel }) => {
+  const { compareEnabled, setCompareEnabled, targets, setTargets, isComparing } = useCompare();
+  const readyCount = targets.filter(t => t.providerId && t.modelId).length;
+
+  const addTarget = () => {
+    if (targets.length >= MAX_COMPARE_TARGETS) return;
+    const seed = targets.length === 0
+      ? { providerId: selectedProvider, modelId: selectedModel }
+      : { providerId: selectedProvider, modelId: '' };
+    setTargets([...targets, seed]);
+  };
+
+  return (
+    <div className="flex flex-col space-y-2">
+      <ConditionalTooltip content={`Send each prompt to ${MIN_COMPARE_TARGETS}-${MAX_COMPARE_TARGETS} models in parallel and pick the answer to continue with.`}>
+        <label className="flex items-center space-x-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={compareEnabled}
+            onChange={(e) => setCompareEnabled(e.target.checked)}
+            disabled={isComparing}
+            className="rounded border-gray-300 text-blue-600 focus:ring-blue-600"
+          />
+          <span>Compare mode</span>
+        </label>
+      </ConditionalTooltip>
+
+      {targets.map((target, index) => (
+        <CompareTargetRow
+          key={index}
+          target={target}
+          providers={providers}
+          onChange={(next) => setTargets(targets.map((t, i) => i === index ? next : t))}
+          onRemove={() => setTargets(targets.filter((_, i) => i !== index))}
+        />
+      ))}
+
+      {targets.length < MAX_COMPARE_TARGETS && (
+        <button
+          type="button"
+          onClick={addTarget}
+          className="px-2 py-1 text-xs text-blue-700 border border-dashed border-blue-300 rounded hover:bg-blue-50"
+        >
+          + Add model
+        </button>
+      )}
+
+      {compareEnabled && readyCount < MIN_COMPARE_TARGETS && (
+        <div className="text-xs text-amber-700">
+          Select at least {MIN_COMPARE_TARGETS} models; until then messages go to the current model only.
+        </div>
+      )}
+    </div>
+  );
+});
+
+ModelCompareSetup.displayName = 'ModelCompareSetup';
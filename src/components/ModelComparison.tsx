@@ -0,0 +1,99 @@
+import React from 'react';
+import { useCompare, type CompareTarget } from '../context/compare';
+import { MessageContent } from './MessageContent';
+import { formatDuration } from '../utils/agentTimeline';
+
+interface ModelComparisonProps {
+  onWinner: (target: CompareTarget) => void;
+}
+
+const gridColumns: Record<number, string> = {
+  2: 'md:grid-cols-2',
+  3: 'md:grid-cols-3',
+  4: 'md:grid-cols-2 xl:grid-cols-4',
+};
+
+/**
+ * Answers of the current comparison run side by side, with usage, latency and finish reason
+ */
+export const ModelComparison: React.FC<ModelComparisonProps> = React.memo(({ onWinner }) => {
+  const { run, isComparing, stopComparison, pickWinner, dismissComparison } = useCompare();
+  if (!run) return null;
+
+  const handlePick = (index: number) => {
+    const target = pickWinner(index);
+    if (target) onWinner(target);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-end">
+        <div className="max-w-xs sm:max-w-sm md:max-w-md lg:max-w-lg px-4 py-2 rounded-lg bg-blue-500 text-white rounded-br-none text-sm whitespace-pre-wrap">
+          {run.prompt}
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between text-xs text-gray-500">
+        <span>Comparing {run.results.length} models{isComparing ? '...' : ' · pick an answer to continue'}</span>
+        <button
+          type="button"
+          onClick={isComparing ? stopComparison : dismissComparison}
+          className="px-2 py-0.5 border border-gray-300 rounded hover:bg-gray-100"
+        >
+          {isComparing ? 'Stop' : 'Discard'}
+        </button>
+      </div>
+
+      <div className={`grid grid-cols-1 gap-3 ${gridColumns[run.results.length] ?? ''}`}>
+        {run.results.map((result, index) => (
+          <div
+            key={`${result.target.providerId}:${result.target.modelId}:${index}`}
+            className={`flex flex-col min-w-0 rounded-lg border bg-surface ${result.status === 'error' ? 'border-red-200' : 'border-gray-200'}`}
+          >
+            <div className="px-3 py-2 border-b border-gray-100 text-xs">
+              <div className="font-medium text-gray-800 truncate" title={result.target.modelId}>{result.response?.model || result.target.modelId}</div>
+              <div className="text-gray-500">{result.target.providerId}</div>
+            </div>
+
+            <div className="flex-1 px-3 py-2 text-gray-800">
+              {result.status === 'pending' && (
+                <div className="flex space-x-1 py-1">
+                  <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce"></div>
+                  <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" style={{animationDelay: '0.1s'}}></div>
+                  <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" style={{animationDelay: '0.2s'}}></div>
+                </div>
+              )}
+              {result.status === 'done' && result.response && <MessageContent content={result.response.message} />}
+              {result.status === 'error' && <div className="text-sm text-red-700 whitespace-pre-wrap">{result.error}</div>}
+              {result.status === 'cancelled' && <div className="text-sm text-gray-500 italic">Stopped</div>}
+            </div>
+
+            <div className="px-3 py-2 border-t border-gray-100 text-xs text-gray-500 space-y-1">
+              <div className="flex flex-wrap gap-x-3">
+                {result.latencyMs !== undefined && <span>Latency: {formatDuration(result.latencyMs)}</span>}
+                {result.response?.finishReason && <span>Finish: {result.response.finishReason}</span>}
+                {result.response?.cached && <span className="text-green-700">Cached</span>}
+              </div>
+              {result.response?.usage && (
+                <div>
+                  Input: {result.response.usage.promptTokens} | Output: {result.response.usage.completionTokens} | Total: {result.response.usage.totalTokens}
+                </div>
+              )}
+              {result.status === 'done' && (
+                <button
+                  type="button"
+                  onClick={() => handlePick(index)}
+                  className="w-full mt-1 px-2 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700"
+                >
+                  Continue with this answer
+                </button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+});
+
+ModelComparison.displayName = 'ModelComparison';
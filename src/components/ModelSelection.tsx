@@ -427,7 +427,7 @@ export const ModelSelection: React.FC<ModelSelectionProps> = React.memo(({
                 <div className={`space-y-4 relative transition-opacity duration-200 ${(loading || modelsLoading) ? 'pointer-events-none opacity-50' : ''}`}>
           {/* Loading Overlay */}
           {(loading || modelsLoading) && (
-            <div className="absolute inset-0 bg-white/70 backdrop-blur-sm z-10 flex items-center justify-center rounded-md">
+            <div className="absolute inset-0 bg-surface/70 backdrop-blur-sm z-10 flex items-center justify-center rounded-md">
               <div className="flex items-center space-x-2">
                 <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-blue-600"></div>
                 <span className="text-sm text-gray-600">
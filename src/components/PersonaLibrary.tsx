@@ -0,0 +1,259 @@
+import React, { useState } from 'react';
+import { ConditionalTooltip } from '../utils/uiUtils';
+import { DEFAULT_EXPORT_ENCRYPTION, downloadExport } from '../utils/exportCrypto';
+import {
+  type Persona,
+  type PersonaDraft,
+  EMPTY_PERSONA,
+  isImageAvatar,
+  loadPersonas,
+  addPersona,
+  updatePersona,
+  duplicatePersona,
+  removePersona,
+  exportPersonas,
+  importPersonas,
+} from '../utils/personas';
+
+interface PersonaLibraryProps {
+  activePersonaId: string | null;
+  selectedProvider: string;
+  selectedModel: string;
+  onActivate: (persona: Persona) => void;
+  onDeactivate: () => void;
+}
+
+export const PersonaAvatar: React.FC<{ avatar: string; className?: string }> = ({ avatar, className = 'w-6 h-6 text-base' }) => (
+  isImageAvatar(avatar)
+    ? <img src={avatar} alt="" className={`${className} rounded-full object-cover flex-shrink-0`} />
+    : <span className={`${className} inline-flex items-center justify-center leading-none flex-shrink-0`} aria-hidden="true">{avatar}</span>
+);
+
+const inputClass = 'w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-600';
+
+export const PersonaLibrary: React.FC<PersonaLibraryProps> = React.memo(({
+  activePersonaId,
+  selectedProvider,
+  selectedModel,
+  onActivate,
+  onDeactivate,
+}) => {
+  const [personas, setPersonas] = useState<Persona[]>(() => loadPersonas());
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [draft, setDraft] = useState<PersonaDraft>(EMPTY_PERSONA);
+  const [message, setMessage] = useState('');
+
+  const resetForm = () => {
+    setEditingId(null);
+    setShowForm(false);
+    setDraft(EMPTY_PERSONA);
+  };
+
+  const startEdit = (persona: Persona) => {
+    const { id, ...rest } = persona;
+    setEditingId(id);
+    setDraft(rest);
+    setShowForm(true);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const next = editingId ? updatePersona(editingId, draft) : addPersona(draft);
+    setPersonas(next);
+    // Re-apply the active persona so prompt and defaults follow the edit
+    const saved = editingId ? next.find(p => p.id === editingId) : undefined;
+    if (saved && saved.id === activePersonaId) onActivate(saved);
+    resetForm();
+  };
+
+  const handleDelete = (persona: Persona) => {
+    if (!window.confirm(`Delete persona "${persona.name}"?`)) return;
+    setPersonas(removePersona(persona.id));
+    if (persona.id === activePersonaId) onDeactivate();
+    if (editingId === persona.id) resetForm();
+  };
+
+  const handleExport = (list: Persona[], baseName: string) => {
+    downloadExport(exportPersonas(list), baseName, DEFAULT_EXPORT_ENCRYPTION);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const result = importPersonas(JSON.parse(await file.text()));
+      setPersonas(result.personas);
+      setMessage(`✅ Imported ${result.imported} persona${result.imported === 1 ? '' : 's'}`);
+    } catch (error) {
+      setMessage(`❌ Import failed: ${error instanceof Error ? error.message : 'Invalid file'}`);
+    }
+  };
+
+  const hasPreferredModel = !!(draft.providerId && draft.modelId);
+
+  return (
+    <div className="space-y-3">
+      {personas.length === 0 ? (
+        <div className="text-xs text-gray-500 text-center">No personas yet</div>
+      ) : (
+        <ul className="space-y-1 max-h-64 overflow-y-auto pr-1">
+          {personas.map(persona => {
+            const isActive = persona.id === activePersonaId;
+            return (
+              <li
+                key={persona.id}
+                className={`rounded border px-2 py-1.5 ${isActive ? 'bg-blue-50 border-blue-300' : 'bg-surface border-gray-200'}`}
+              >
+                <div className="flex items-start space-x-2">
+                  <PersonaAvatar avatar={persona.avatar} />
+                  <button
+                    onClick={() => isActive ? onDeactivate() : onActivate(persona)}
+                    className="min-w-0 flex-1 text-left"
+                    title={isActive ? 'Stop using this persona' : 'Use this persona'}
+                  >
+                    <div className={`truncate text-sm ${isActive ? 'font-medium text-blue-800' : 'text-gray-800'}`}>{persona.name}</div>
+                    {persona.description && <div className="text-xs text-gray-500 line-clamp-2">{persona.description}</div>}
+                    {(persona.temperature !== undefined || persona.modelId) && (
+                      <div className="text-[10px] text-gray-400 truncate">
+                        {[persona.temperature !== undefined && `temp ${persona.temperature}`, persona.modelId].filter(Boolean).join(' · ')}
+                      </div>
+                    )}
+                  </button>
+                  <div className="flex items-center flex-shrink-0">
+                    <button onClick={() => startEdit(persona)} className="p-1 text-gray-400 hover:text-gray-700 rounded" title="Edit persona">
+                      <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536M9 13l6.232-6.232a2.5 2.5 0 113.536 3.536L12.536 16.536a4 4 0 01-1.414.94L7 19l1.524-4.122A4 4 0 019 13z" />
+                      </svg>
+                    </button>
+                    <button onClick={() => setPersonas(duplicatePersona(persona.id))} className="p-1 text-gray-400 hover:text-gray-700 rounded" title="Duplicate persona">
+                      <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
+                      </svg>
+                    </button>
+                    <button onClick={() => handleExport([persona], `persona-${persona.name.replace(/[^\w-]+/g, '-').toLowerCase()}`)} className="p-1 text-gray-400 hover:text-gray-700 rounded" title="Export persona">
+                      <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v2a2 2 0 002 2h12a2 2 0 002-2v-2M12 4v12m0 0l-4-4m4 4l4-4" />
+                      </svg>
+                    </button>
+                    <button onClick={() => handleDelete(persona)} className="p-1 text-gray-400 hover:text-red-600 rounded" title="Delete persona">
+                      <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                      </svg>
+                    </button>
+                  </div>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {showForm ? (
+        <form onSubmit={handleSubmit} className="space-y-2 border-t border-gray-200 pt-2">
+          <div className="text-xs font-medium text-gray-700">{editingId ? 'Edit persona' : 'New persona'}</div>
+          <div className="flex space-x-2">
+            <input
+              type="text"
+              value={draft.avatar}
+              onChange={(e) => setDraft({ ...draft, avatar: e.target.value })}
+              placeholder="🙂"
+              title="Emoji or image URL"
+              className={`${inputClass} w-14 text-center`}
+            />
+            <input
+              type="text"
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              placeholder="Name"
+              className={inputClass}
+            />
+          </div>
+          <input
+            type="text"
+            value={draft.description}
+            onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+            placeholder="Short description"
+            className={inputClass}
+          />
+          <textarea
+            value={draft.characterPrompt}
+            onChange={(e) => setDraft({ ...draft, characterPrompt: e.target.value })}
+            placeholder="You are a patient tutor who explains concepts step by step."
+            className={`${inputClass} h-24`}
+          />
+          <label className="flex items-center justify-between text-xs text-gray-700">
+            <span>Default temperature</span>
+            <input
+              type="number"
+              min={0}
+              max={1}
+              step={0.1}
+              value={draft.temperature ?? ''}
+              onChange={(e) => setDraft({ ...draft, temperature: e.target.value === '' ? undefined : Number(e.target.value) })}
+              placeholder="—"
+              className="w-16 px-1 py-0.5 text-xs border border-gray-300 rounded"
+            />
+          </label>
+          <label className="flex items-start space-x-2 text-xs text-gray-700">
+            <input
+              type="checkbox"
+              checked={hasPreferredModel}
+              disabled={!hasPreferredModel && !(selectedProvider && selectedModel)}
+              onChange={(e) => setDraft(e.target.checked
+                ? { ...draft, providerId: selectedProvider, modelId: selectedModel }
+                : { ...draft, providerId: undefined, modelId: undefined })}
+              className="h-3.5 w-3.5 mt-0.5"
+            />
+            <span className="break-all">
+              Preferred model: {hasPreferredModel ? `${draft.providerId}: ${draft.modelId}` : `use current (${selectedModel || 'none'})`}
+            </span>
+          </label>
+          <div className="flex space-x-2">
+            <button
+              type="submit"
+              disabled={!draft.name.trim() || !draft.characterPrompt.trim()}
+              className="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {editingId ? 'Save' : 'Add'}
+            </button>
+            <button
+              type="button"
+              onClick={resetForm}
+              className="px-3 py-1 text-sm text-gray-700 border border-gray-300 rounded hover:bg-gray-100"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      ) : (
+        <div className="flex space-x-2">
+          <ConditionalTooltip content="Personas are stored in this browser. Using one replaces the Character Prompt and applies its temperature and model.">
+            <button
+              onClick={() => setShowForm(true)}
+              className="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700"
+            >
+              + New
+            </button>
+          </ConditionalTooltip>
+          <label className="px-3 py-1 text-sm text-gray-700 border border-gray-300 rounded hover:bg-gray-100 cursor-pointer">
+            Import
+            <input type="file" accept=".json" onChange={handleImport} className="hidden" />
+          </label>
+          <button
+            onClick={() => handleExport(personas, 'personas')}
+            disabled={personas.length === 0}
+            className="px-3 py-1 text-sm text-gray-700 border border-gray-300 rounded hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Export all
+          </button>
+        </div>
+      )}
+
+      {message && <p className="text-xs text-gray-600 break-words">{message}</p>}
+    </div>
+  );
+});
+
+PersonaLibrary.displayName = 'PersonaLibrary';
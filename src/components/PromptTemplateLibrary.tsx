@@ -0,0 +1,201 @@
+import React, { useCallback, useState } from 'react';
+import { ConditionalTooltip } from '../utils/uiUtils';
+import { DEFAULT_EXPORT_ENCRYPTION, downloadExport } from '../utils/exportCrypto';
+import {
+  type PromptTemplate,
+  type PromptTemplateDraft,
+  EMPTY_TEMPLATE,
+  parseTemplateVariables,
+  loadTemplates,
+  addTemplate,
+  updateTemplate,
+  removeTemplate,
+  exportTemplates,
+  importTemplates,
+} from '../utils/promptTemplates';
+import { TemplateFillDialog } from './TemplateFillDialog';
+
+interface PromptTemplateLibraryProps {
+  // Whether a prompt can be sent right now (not loading, rate limited, ...)
+  canSend: boolean;
+  onInsert: (text: string) => void;
+  onSend: (text: string) => void;
+}
+
+const inputClass = 'w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-600';
+
+export const PromptTemplateLibrary: React.FC<PromptTemplateLibraryProps> = React.memo(({ canSend, onInsert, onSend }) => {
+  const [templates, setTemplates] = useState<PromptTemplate[]>(() => loadTemplates());
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [draft, setDraft] = useState<PromptTemplateDraft>(EMPTY_TEMPLATE);
+  const [filling, setFilling] = useState<PromptTemplate | null>(null);
+  const [message, setMessage] = useState('');
+
+  const resetForm = () => {
+    setEditingId(null);
+    setShowForm(false);
+    setDraft(EMPTY_TEMPLATE);
+  };
+
+  const startEdit = (template: PromptTemplate) => {
+    const { id, ...rest } = template;
+    setEditingId(id);
+    setDraft(rest);
+    setShowForm(true);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setTemplates(editingId ? updateTemplate(editingId, draft) : addTemplate(draft));
+    resetForm();
+  };
+
+  const handleDelete = (template: PromptTemplate) => {
+    if (!window.confirm(`Delete template "${template.name}"?`)) return;
+    setTemplates(removeTemplate(template.id));
+    if (editingId === template.id) resetForm();
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const result = importTemplates(JSON.parse(await file.text()));
+      setTemplates(result.templates);
+      setMessage(`✅ Imported ${result.imported} template${result.imported === 1 ? '' : 's'}`);
+    } catch (error) {
+      setMessage(`❌ Import failed: ${error instanceof Error ? error.message : 'Invalid file'}`);
+    }
+  };
+
+  const closeFill = useCallback(() => setFilling(null), []);
+
+  const draftVariables = parseTemplateVariables(draft.body);
+
+  return (
+    <div className="space-y-3">
+      {templates.length === 0 ? (
+        <div className="text-xs text-gray-500 text-center">No templates yet</div>
+      ) : (
+        <ul className="space-y-1 max-h-64 overflow-y-auto pr-1">
+          {templates.map(template => {
+            const variableCount = parseTemplateVariables(template.body).length;
+            return (
+              <li key={template.id} className="rounded border border-gray-200 bg-surface px-2 py-1.5">
+                <div className="flex items-start space-x-2">
+                  <button
+                    onClick={() => setFilling(template)}
+                    className="min-w-0 flex-1 text-left"
+                    title="Fill in and use this template"
+                  >
+                    <div className="truncate text-sm text-gray-800">{template.name}</div>
+                    <div className="text-xs text-gray-500 truncate">
+                      {template.description || `${variableCount} variable${variableCount === 1 ? '' : 's'}`}
+                    </div>
+                  </button>
+                  <div className="flex items-center flex-shrink-0">
+                    <button onClick={() => startEdit(template)} className="p-1 text-gray-400 hover:text-gray-700 rounded" title="Edit template">
+                      <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536M9 13l6.232-6.232a2.5 2.5 0 113.536 3.536L12.536 16.536a4 4 0 01-1.414.94L7 19l1.524-4.122A4 4 0 019 13z" />
+                      </svg>
+                    </button>
+                    <button onClick={() => handleDelete(template)} className="p-1 text-gray-400 hover:text-red-600 rounded" title="Delete template">
+                      <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                      </svg>
+                    </button>
+                  </div>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {showForm ? (
+        <form onSubmit={handleSubmit} className="space-y-2 border-t border-gray-200 pt-2">
+          <div className="text-xs font-medium text-gray-700">{editingId ? 'Edit template' : 'New template'}</div>
+          <input
+            type="text"
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            placeholder="Name (e.g. Review diff)"
+            className={inputClass}
+          />
+          <input
+            type="text"
+            value={draft.description}
+            onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+            placeholder="Short description"
+            className={inputClass}
+          />
+          <textarea
+            value={draft.body}
+            onChange={(e) => setDraft({ ...draft, body: e.target.value })}
+            placeholder={'Review this diff for {{focus=security}} issues.\nSeverity: {{severity|low|medium|high}}\n\n{{diff:multiline}}'}
+            className={`${inputClass} h-32 font-mono text-xs`}
+          />
+          <div className="text-xs text-gray-500">
+            {draftVariables.length
+              ? `Variables: ${draftVariables.map(v => v.name).join(', ')}`
+              : <>Use <code>{'{{name}}'}</code>, <code>{'{{name=default}}'}</code>, <code>{'{{name|a|b}}'}</code> or <code>{'{{name:multiline}}'}</code>.</>}
+          </div>
+          <div className="flex space-x-2">
+            <button
+              type="submit"
+              disabled={!draft.name.trim() || !draft.body.trim()}
+              className="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {editingId ? 'Save' : 'Add'}
+            </button>
+            <button
+              type="button"
+              onClick={resetForm}
+              className="px-3 py-1 text-sm text-gray-700 border border-gray-300 rounded hover:bg-gray-100"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      ) : (
+        <div className="flex space-x-2">
+          <ConditionalTooltip content="Templates are stored in this browser. Pick one to fill its {{variables}} and insert or send the prompt.">
+            <button
+              onClick={() => setShowForm(true)}
+              className="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700"
+            >
+              + New
+            </button>
+          </ConditionalTooltip>
+          <label className="px-3 py-1 text-sm text-gray-700 border border-gray-300 rounded hover:bg-gray-100 cursor-pointer">
+            Import
+            <input type="file" accept=".json" onChange={handleImport} className="hidden" />
+          </label>
+          <button
+            onClick={() => downloadExport(exportTemplates(templates), 'prompt-templates', DEFAULT_EXPORT_ENCRYPTION)}
+            disabled={templates.length === 0}
+            className="px-3 py-1 text-sm text-gray-700 border border-gray-300 rounded hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Export
+          </button>
+        </div>
+      )}
+
+      {message && <p className="text-xs text-gray-600 break-words">{message}</p>}
+
+      {filling && (
+        <TemplateFillDialog
+          template={filling}
+          canSend={canSend}
+          onInsert={(text) => { onInsert(text); setFilling(null); }}
+          onSend={(text) => { onSend(text); setFilling(null); }}
+          onClose={closeFill}
+        />
+      )}
+    </div>
+  );
+});
+
+PromptTemplateLibrary.displayName = 'PromptTemplateLibrary';
@@ -1,26 +1,86 @@
-import React, { useEffect, useRef, useState, useCallback } from 'react';
-import { uploadDocument, clearRag, clearRagSource, getSupportedFileTypes, getRagSessionStatus, type SupportedFileTypes, type RagSessionStatus } from '../api/RagClient';
+import React, { useEffect, useImperativeHandle, useRef, useState } from 'react';
+import { uploadDocument, ingestUrl, ingestText, clearRag, clearRagSource, getSupportedFileTypes, getRagSessionStatus, type SupportedFileTypes, type RagSessionStatus } from '../api/RagClient';
 import { useSettings } from '../context/SettingsContext';
 import { Tooltip } from './Tooltip';
+import { DocumentBrowser } from './DocumentBrowser';
+import { formatBytes } from '../utils/format';
+import { uploadFileInChunks } from '../utils/chunkedUpload';
+import { toApiError } from '../api/httpClient';
+import { collectFromDataTransfer, collectFromFileList, expandArchives, isZipFile, type CollectedFile } from '../utils/fileCollection';
+import {
+  sha256Hex,
+  decideDedup,
+  loadIngestedHashes,
+  recordIngestedHash,
+  forgetIngestedSource,
+  forgetAllIngested,
+  type DedupResult,
+} from '../utils/ragDedup';
 
 type FileState = {
   id: string;
-  file: File;
+  // Files go through multipart upload, URLs are fetched by the backend, pasted text is uploaded as a .txt source
+  kind: 'file' | 'url' | 'text';
+  file?: File;
+  url?: string;
+  text?: string;
   name: string;
   size: number;
   progress: number; // 0..100
-  status: 'queued' | 'uploading' | 'uploaded' | 'error';
+  status: 'queued' | 'uploading' | 'paused' | 'uploaded' | 'skipped' | 'error';
   chunks?: number;
   error?: string;
+  // SHA-256 of file content; undefined while hashing
+  hash?: string;
+  dedup?: DedupResult;
 };
 
-export const RagUploader = React.memo(({ sessionId }: { sessionId?: string }) => {
+const CONCURRENCY_KEY = 'ragUploadConcurrency';
+
+const dedupBadges: Record<DedupResult['decision'], { label: string; className: string }> = {
+  new: { label: 'New', className: 'bg-gray-100 text-gray-600' },
+  skip: { label: 'Skip duplicate', className: 'bg-amber-100 text-amber-700' },
+  replace: { label: 'Replace', className: 'bg-purple-100 text-purple-700' },
+};
+
+// Lets the composer open the file picker (e.g. from the /upload command)
+export interface RagUploaderHandle {
+  openPicker: () => void;
+  clearKnowledgeBase: () => Promise<void>;
+}
+
+export const RagUploader = React.memo(({ sessionId, ref }: { sessionId?: string; ref?: React.Ref<RagUploaderHandle> }) => {
   const inputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  // Upload queue: ids waiting for a slot, abort controllers of running uploads
+  const pendingRef = useRef<string[]>([]);
+  const controllersRef = useRef(new Map<string, AbortController>());
+  const activeUploadsRef = useRef(0);
   const [files, setFiles] = useState<FileState[]>([]);
   const [dragActive, setDragActive] = useState(false);
   const [busy, setBusy] = useState(false);
   const [supportedTypes, setSupportedTypes] = useState<SupportedFileTypes | null>(null);
   const [sessionStatus, setSessionStatus] = useState<RagSessionStatus | null>(null);
+  const [addMode, setAddMode] = useState<'url' | 'text'>('url');
+  const [addValue, setAddValue] = useState('');
+  const [addName, setAddName] = useState('');
+  const [addError, setAddError] = useState<string | null>(null);
+  const [concurrency, setConcurrency] = useState(() => Number(localStorage.getItem(CONCURRENCY_KEY)) || 2);
+  // Latest values for the upload workers, which outlive the render that started them
+  const filesRef = useRef(files);
+  filesRef.current = files;
+  const concurrencyRef = useRef(concurrency);
+  concurrencyRef.current = concurrency;
+
+  useEffect(() => {
+    localStorage.setItem(CONCURRENCY_KEY, String(concurrency));
+  }, [concurrency]);
+
+  // Stop in-flight uploads when the panel unmounts; they resume from the server's chunks later
+  useEffect(() => {
+    const controllers = controllersRef.current;
+    return () => controllers.forEach(c => c.abort());
+  }, []);
   const { settings } = useSettings();
 
   // Load supported file types on component mount
@@ -63,20 +123,45 @@ export const RagUploader = React.memo(({ sessionId }: { sessionId?: string }) =>
     }
   }, [sessionId]);
 
-  const enqueueFiles = (fileList: FileList) => {
+  const isSupportedFile = (f: File) => (
+    supportedTypes?.extensions.some(ext => f.name.toLowerCase().endsWith(`.${ext}`))
+    || supportedTypes?.mimeTypes.includes(f.type)
+  );
+
+  // Hash queued files and decide per file whether to upload, skip or replace
+  const classifyFiles = async (entries: FileState[]) => {
+    const ingested = loadIngestedHashes(sessionId);
+    const existingSources = sessionStatus?.sources ?? [];
+    for (const entry of entries) {
+      if (!entry.file) continue;
+      const hash = await sha256Hex(entry.file);
+      setFiles((prev) => {
+        const queuedHashes = new Set(prev.filter(f => f.id !== entry.id && f.hash && f.status !== 'skipped' && f.dedup?.decision !== 'skip').map(f => f.hash!));
+        const dedup = decideDedup(hash, entry.name, ingested, existingSources, queuedHashes);
+        return prev.map(f => f.id === entry.id ? { ...f, hash, dedup } : f);
+      });
+    }
+  };
+
+  const enqueueFiles = async (collected: CollectedFile[]) => {
+    let expanded: CollectedFile[];
+    try {
+      expanded = await expandArchives(collected);
+    } catch (error) {
+      console.error('Failed to expand archive:', error);
+      expanded = collected.filter(c => !isZipFile(c.file));
+    }
     const toAdd: FileState[] = [];
-    Array.from(fileList).forEach((f) => {
+    expanded.forEach(({ file: original, path }) => {
       // Check if file type is supported
-      const isSupported = supportedTypes?.extensions.some(ext => 
-        f.name.toLowerCase().endsWith(`.${ext}`)
-      ) || supportedTypes?.mimeTypes.includes(f.type);
-      
-      if (!isSupported) {
+      if (!isSupportedFile(original)) {
         return;
       }
-      
+      // Nested files are ingested under their relative path so sources stay distinguishable
+      const f = original.name === path ? original : new File([original], path, { type: original.type, lastModified: original.lastModified });
       toAdd.push({
         id: `${f.name}-${f.size}-${f.lastModified}-${Math.random().toString(36).slice(2)}`,
+        kind: 'file',
         file: f,
         name: f.name,
         size: f.size,
@@ -84,68 +169,164 @@ export const RagUploader = React.memo(({ sessionId }: { sessionId?: string }) =>
         status: 'queued'
       });
     });
-    if (toAdd.length) setFiles((prev) => [...prev, ...toAdd]);
+    if (toAdd.length) {
+      setFiles((prev) => [...prev, ...toAdd]);
+      await classifyFiles(toAdd);
+    }
+  };
+
+  const toggleDedup = (id: string) => {
+    setFiles((prev) => prev.map(f => {
+      if (f.id !== id || !f.dedup || f.dedup.decision === 'new') return f;
+      const decision = f.dedup.decision === 'skip' ? 'replace' : 'skip';
+      return { ...f, dedup: { ...f.dedup, decision } };
+    }));
+  };
+
+  const enqueueUrlOrText = () => {
+    const value = addValue.trim();
+    if (!value) return;
+    const id = `${addMode}-${Date.now()}-${Math.random().toString(36).slice(2)}`;
+    if (addMode === 'url') {
+      let parsed: URL;
+      try {
+        parsed = new URL(value);
+      } catch {
+        setAddError('Enter a full URL, e.g. https://example.com/docs');
+        return;
+      }
+      if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+        setAddError('Only http(s) URLs can be ingested');
+        return;
+      }
+      const name = addName.trim() || `${parsed.hostname}${parsed.pathname === '/' ? '' : parsed.pathname}`;
+      setFiles((prev) => [...prev, { id, kind: 'url', url: parsed.toString(), name, size: 0, progress: 0, status: 'queued' }]);
+    } else {
+      const name = addName.trim() || `Pasted text ${new Date().toLocaleString()}`;
+      const size = new Blob([value]).size;
+      setFiles((prev) => [...prev, { id, kind: 'text', text: value, name, size, progress: 0, status: 'queued' }]);
+    }
+    setAddValue('');
+    setAddName('');
+    setAddError(null);
+  };
+
+  const uploadEntry = (entry: FileState, onProgress: (percent: number) => void, signal: AbortSignal) => {
+    if (entry.kind === 'url') return ingestUrl(entry.url!, { sessionId, sourceName: entry.name });
+    if (entry.kind === 'text') return ingestText(entry.text!, entry.name, sessionId, onProgress);
+    if (entry.hash) return uploadFileInChunks(entry.file!, { sessionId, contentHash: entry.hash, signal, onProgress });
+    return uploadDocument(entry.file!, sessionId, onProgress);
   };
 
   const onFileInput = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files) enqueueFiles(e.target.files);
+    if (e.target.files) enqueueFiles(collectFromFileList(e.target.files));
     // reset input to allow re-selecting same file
-    if (inputRef.current) inputRef.current.value = '';
+    e.target.value = '';
   };
 
   const onDrop = (e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault();
     e.stopPropagation();
     setDragActive(false);
-    if (e.dataTransfer.files) enqueueFiles(e.dataTransfer.files);
+    collectFromDataTransfer(e.dataTransfer)
+      .then(enqueueFiles)
+      .catch(error => console.error('Failed to read dropped files:', error));
   };
 
-  const startUpload = async () => {
-    if (!files.length || busy) return;
-    setBusy(true);
+  // Upload one queued entry; pausing aborts it and leaves it resumable
+  const processEntry = async (id: string) => {
+    const entry = filesRef.current.find(f => f.id === id);
+    if (!entry || entry.status !== 'queued') return;
+    const update = (changes: Partial<FileState>) => setFiles((prev) => prev.map(f => f.id === id ? { ...f, ...changes } : f));
+    if (entry.dedup?.decision === 'skip') {
+      update({ status: 'skipped' });
+      return;
+    }
+    const controller = new AbortController();
+    controllersRef.current.set(id, controller);
+    update({ status: 'uploading', error: undefined });
     try {
-      for (let i = 0; i < files.length; i++) {
-        if (files[i].status === 'uploaded') continue;
-        setFiles((prev) => prev.map((f, idx) => idx === i ? { ...f, status: 'uploading', progress: 0 } : f));
+      if (entry.dedup?.decision === 'replace' && entry.dedup.existingSource) {
+        await clearRagSource(entry.dedup.existingSource, sessionId);
+        forgetIngestedSource(sessionId, entry.dedup.existingSource);
+        // Only replace once, even if the upload is paused and resumed
+        update({ dedup: { ...entry.dedup, decision: 'new' } });
+      }
+      const res = await uploadEntry(entry, (p) => update({ progress: p }), controller.signal);
+      if (entry.hash) recordIngestedHash(sessionId, entry.hash, entry.name);
+      update({ status: 'uploaded', progress: 100, chunks: res.chunks_added });
+
+      // Update session status after successful upload
+      if (sessionId) {
         try {
-          const res = await uploadDocument(files[i].file, sessionId, (p) => {
-            setFiles((prev) => prev.map((f, idx) => idx === i ? { ...f, progress: p } : f));
-          });
-          setFiles((prev) => prev.map((f, idx) => idx === i ? { ...f, status: 'uploaded', progress: 100, chunks: res.chunks_added } : f));
-          
-          // Update session status after successful upload
-          if (sessionId) {
-            try {
-              const status = await getRagSessionStatus(sessionId);
-              setSessionStatus(status);
-            } catch (error) {
-              console.error('Failed to update session status:', error);
-            }
-          }
-        } catch (err: any) {
-          setFiles((prev) => prev.map((f, idx) => idx === i ? { ...f, status: 'error', error: err?.message || 'Upload failed' } : f));
+          const status = await getRagSessionStatus(sessionId);
+          setSessionStatus(status);
+        } catch (error) {
+          console.error('Failed to update session status:', error);
         }
       }
-      
-      // Clear selected files after successful upload with a short delay
-      setTimeout(() => {
-        setFiles([]);
-        
-        // Reset file input to allow re-selecting the same file
-        if (inputRef.current) {
-          inputRef.current.value = '';
-        }
-      }, 1000); // 2 second delay
+    } catch (err) {
+      const apiError = toApiError(err);
+      update(apiError.isCancelled ? { status: 'paused' } : { status: 'error', error: apiError.message || 'Upload failed' });
     } finally {
-      setBusy(false);
+      controllersRef.current.delete(id);
+    }
+  };
+
+  // Run queued entries with at most `concurrency` uploads in flight
+  const pumpQueue = () => {
+    while (activeUploadsRef.current < concurrencyRef.current && pendingRef.current.length) {
+      const id = pendingRef.current.shift()!;
+      activeUploadsRef.current++;
+      setBusy(true);
+      processEntry(id).finally(() => {
+        activeUploadsRef.current--;
+        if (activeUploadsRef.current === 0 && !pendingRef.current.length) {
+          setBusy(false);
+          // Clear finished files after a short delay; paused and failed ones stay for resume/retry
+          setTimeout(() => {
+            setFiles((prev) => prev.filter(f => f.status !== 'uploaded' && f.status !== 'skipped'));
+          }, 1000);
+        } else {
+          pumpQueue();
+        }
+      });
     }
   };
 
+  const enqueueUploads = (ids: string[]) => {
+    const fresh = ids.filter(id => !pendingRef.current.includes(id) && !controllersRef.current.has(id));
+    pendingRef.current.push(...fresh);
+    pumpQueue();
+  };
+
+  const startUpload = () => {
+    enqueueUploads(files.filter(f => f.status === 'queued').map(f => f.id));
+  };
+
+  const pauseUpload = (id: string) => {
+    pendingRef.current = pendingRef.current.filter(p => p !== id);
+    const controller = controllersRef.current.get(id);
+    if (controller) {
+      controller.abort();
+    } else {
+      setFiles((prev) => prev.map(f => f.id === id && f.status === 'queued' ? { ...f, status: 'paused' } : f));
+    }
+  };
+
+  // Resume a paused upload or retry a failed one; chunks the server already has are not re-sent
+  const resumeUpload = (id: string) => {
+    setFiles((prev) => prev.map(f => f.id === id ? { ...f, status: 'queued', error: undefined } : f));
+    filesRef.current = filesRef.current.map(f => f.id === id ? { ...f, status: 'queued', error: undefined } : f);
+    enqueueUploads([id]);
+  };
+
   const clearSession = async () => {
     if (busy) return;
     setBusy(true);
     try {
       await clearRag(sessionId);
+      forgetAllIngested(sessionId);
       setFiles([]);
       // Update session status after clearing
       if (sessionId) {
@@ -157,11 +338,17 @@ export const RagUploader = React.memo(({ sessionId }: { sessionId?: string }) =>
     }
   };
 
+  useImperativeHandle(ref, () => ({
+    openPicker: () => inputRef.current?.click(),
+    clearKnowledgeBase: clearSession,
+  }));
+
   const clearSource = async (sourceName: string) => {
     if (busy) return;
     setBusy(true);
     try {
       await clearRagSource(sourceName, sessionId);
+      forgetIngestedSource(sessionId, sourceName);
       // Update session status after clearing individual source
       if (sessionId) {
         const status = await getRagSessionStatus(sessionId);
@@ -174,12 +361,6 @@ export const RagUploader = React.memo(({ sessionId }: { sessionId?: string }) =>
     }
   };
 
-  const humanSize = useCallback((bytes: number) => {
-    if (bytes < 1024) return `${bytes} B`;
-    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
-    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
-  }, []);
-
   return (
     <div className="space-y-3">
       <div
@@ -195,32 +376,111 @@ export const RagUploader = React.memo(({ sessionId }: { sessionId?: string }) =>
         <input
           ref={inputRef}
           type="file"
-          accept={supportedTypes?.extensions.map(ext => `.${ext}`).join(',') || ".pdf,.txt,.md,.csv,.json,.xml,.html,.xlsx,.xls,.docx,.doc"}
+          accept={`${supportedTypes?.extensions.map(ext => `.${ext}`).join(',') || ".pdf,.txt,.md,.csv,.json,.xml,.html,.xlsx,.xls,.docx,.doc"},.zip`}
+          onChange={onFileInput}
+          className="hidden"
+          multiple
+        />
+        <input
+          ref={folderInputRef}
+          type="file"
           onChange={onFileInput}
           className="hidden"
           multiple
+          {...{ webkitdirectory: '' }}
         />
         <div className="flex items-center justify-center space-x-2 text-gray-700">
           <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1M8 12l4-4m0 0l4 4m-4-4v12" />
           </svg>
-          <span className="text-sm">Drag & drop documents here or click to select</span>
+          <span className="text-sm">Drag & drop documents, folders or .zip archives here or click to select</span>
         </div>
         <div className="text-xs text-gray-500 mt-1">
           Supported: PDF, Excel (.xlsx, .xls), Word (.docx, .doc), Text (.txt, .md, .csv, .json, .xml, .html)
         </div>
+        <button
+          type="button"
+          onClick={(e) => { e.stopPropagation(); folderInputRef.current?.click(); }}
+          className="mt-1 text-xs text-blue-700 underline hover:text-blue-800"
+        >
+          Select a folder
+        </button>
+      </div>
+
+      {/* Add from URL or pasted text */}
+      <div className="space-y-2">
+        <div className="flex text-xs border border-gray-300 rounded overflow-hidden w-fit">
+          {(['url', 'text'] as const).map(mode => (
+            <button
+              key={mode}
+              type="button"
+              onClick={() => { setAddMode(mode); setAddError(null); }}
+              className={`px-2 py-1 ${addMode === mode ? 'bg-blue-600 text-white' : 'bg-surface text-gray-700 hover:bg-gray-100'}`}
+            >
+              {mode === 'url' ? 'From URL' : 'Paste text'}
+            </button>
+          ))}
+        </div>
+        {addMode === 'url' ? (
+          <input
+            type="url"
+            value={addValue}
+            onChange={(e) => { setAddValue(e.target.value); setAddError(null); }}
+            onKeyDown={(e) => { if (e.key === 'Enter') { e.preventDefault(); enqueueUrlOrText(); } }}
+            placeholder="https://example.com/article"
+            className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-600"
+          />
+        ) : (
+          <textarea
+            value={addValue}
+            onChange={(e) => setAddValue(e.target.value)}
+            placeholder="Paste a thread, README or notes..."
+            rows={4}
+            className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-600 resize-y"
+          />
+        )}
+        <div className="flex space-x-2">
+          <input
+            type="text"
+            value={addName}
+            onChange={(e) => setAddName(e.target.value)}
+            placeholder="Source name (optional)"
+            className="flex-1 min-w-0 px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-600"
+          />
+          <Tooltip content="Queue this URL or text as a named source; upload it with the other selected documents.">
+            <button
+              type="button"
+              onClick={enqueueUrlOrText}
+              disabled={!addValue.trim()}
+              className="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+            >
+              Add
+            </button>
+          </Tooltip>
+        </div>
+        {addError && <div className="text-xs text-red-600">{addError}</div>}
       </div>
 
       {/* File selection and upload */}
       {files.length > 0 && (
         <div className="space-y-2">
           <div className="flex items-center justify-between">
-            <div className="text-sm text-gray-700">Selected: {files.length} file{files.length > 1 ? 's' : ''}</div>
-            <div className="space-x-2">
+            <div className="text-sm text-gray-700">Selected: {files.length} source{files.length > 1 ? 's' : ''}</div>
+            <div className="flex items-center space-x-2">
+              <Tooltip content="Number of documents uploaded at the same time.">
+                <select
+                  value={concurrency}
+                  onChange={(e) => setConcurrency(Number(e.target.value))}
+                  className="px-1 py-1 text-xs border border-gray-300 rounded bg-surface"
+                  aria-label="Concurrent uploads"
+                >
+                  {[1, 2, 3, 4].map(n => <option key={n} value={n}>{n} at a time</option>)}
+                </select>
+              </Tooltip>
               <Tooltip content="Upload the selected documents to make their content available for AI responses in this session.">
                 <button
                   onClick={startUpload}
-                  disabled={busy || files.every(f => f.status === 'uploaded')}
+                  disabled={!files.some(f => f.status === 'queued') || files.some(f => f.kind === 'file' && !f.dedup)}
                   className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
                 >
                   {busy ? 'Uploading...' : 'Upload'}
@@ -231,22 +491,63 @@ export const RagUploader = React.memo(({ sessionId }: { sessionId?: string }) =>
 
           <ul className="space-y-2 max-h-48 overflow-y-auto pr-1">
             {files.map((f) => (
-              <li key={f.id} className="bg-white border border-gray-200 rounded p-2">
+              <li key={f.id} className="bg-surface border border-gray-200 rounded p-2">
                 <div className="flex items-center justify-between">
                   <div className="min-w-0 mr-2">
                     <div className="truncate text-sm text-gray-800" title={f.name}>{f.name}</div>
-                    <div className="text-xs text-gray-500">{humanSize(f.size)}</div>
+                    <div className="text-xs text-gray-500 truncate" title={f.url}>{f.kind === 'url' ? f.url : formatBytes(f.size)}</div>
                   </div>
-                  <div className="text-xs text-gray-600">
-                    {f.status === 'queued' && <span className="px-2 py-0.5 bg-gray-100 rounded">Queued</span>}
-                    {f.status === 'uploading' && <span className="px-2 py-0.5 bg-blue-100 text-blue-700 rounded">Uploading {f.progress}%</span>}
+                  <div className="flex items-center space-x-1 text-xs text-gray-600 flex-shrink-0">
+                    {f.status === 'queued' && <span className="px-2 py-0.5 bg-gray-100 rounded">{f.kind === 'file' && !f.dedup ? 'Hashing...' : 'Queued'}</span>}
+                    {f.status === 'skipped' && <span className="px-2 py-0.5 bg-amber-100 text-amber-700 rounded">Skipped</span>}
+                    {f.status === 'uploading' && <span className="px-2 py-0.5 bg-blue-100 text-blue-700 rounded">{f.kind === 'url' ? 'Fetching...' : `Uploading ${f.progress}%`}</span>}
                     {f.status === 'uploaded' && <span className="px-2 py-0.5 bg-green-100 text-green-700 rounded">Uploaded{typeof f.chunks === 'number' ? ` (${f.chunks} chunks)` : ''}</span>}
+                    {f.status === 'paused' && <span className="px-2 py-0.5 bg-gray-100 text-gray-700 rounded">Paused {f.progress}%</span>}
                     {f.status === 'error' && <span className="px-2 py-0.5 bg-red-100 text-red-700 rounded">Error</span>}
+                    {f.kind === 'file' && (f.status === 'uploading' || (f.status === 'queued' && busy)) && (
+                      <button
+                        type="button"
+                        onClick={() => pauseUpload(f.id)}
+                        className="px-1.5 py-0.5 border border-gray-300 rounded hover:bg-gray-100"
+                        title="Pause this upload"
+                      >
+                        Pause
+                      </button>
+                    )}
+                    {(f.status === 'paused' || f.status === 'error') && (
+                      <button
+                        type="button"
+                        onClick={() => resumeUpload(f.id)}
+                        className="px-1.5 py-0.5 border border-gray-300 rounded hover:bg-gray-100"
+                        title={f.status === 'paused' ? 'Resume from the last uploaded chunk' : 'Retry this upload'}
+                      >
+                        {f.status === 'paused' ? 'Resume' : 'Retry'}
+                      </button>
+                    )}
                   </div>
                 </div>
                 <div className="mt-2 h-1.5 bg-gray-100 rounded overflow-hidden">
-                  <div className={`h-full ${f.status === 'error' ? 'bg-red-400' : 'bg-blue-500'}`} style={{ width: `${f.progress}%` }} />
+                  {/* URL ingestion has no upload body to measure, so show an indeterminate bar */}
+                  <div className={`h-full ${f.status === 'error' ? 'bg-red-400' : 'bg-blue-500'} ${f.kind === 'url' && f.status === 'uploading' ? 'w-full animate-pulse' : ''}`} style={f.kind === 'url' && f.status === 'uploading' ? undefined : { width: `${f.progress}%` }} />
                 </div>
+                {f.dedup && (
+                  <div className="mt-1 flex items-center justify-between space-x-2 text-xs text-gray-500">
+                    <span className="truncate" title={f.hash ? `SHA-256 ${f.hash}` : undefined}>{f.dedup.reason}</span>
+                    {f.dedup.decision === 'new' || f.status !== 'queued' ? (
+                      <span className={`flex-shrink-0 px-1.5 py-0.5 rounded ${dedupBadges[f.dedup.decision].className}`}>{dedupBadges[f.dedup.decision].label}</span>
+                    ) : (
+                      <button
+                        type="button"
+                        onClick={() => toggleDedup(f.id)}
+                        disabled={busy}
+                        className={`flex-shrink-0 px-1.5 py-0.5 rounded hover:ring-1 hover:ring-gray-300 ${dedupBadges[f.dedup.decision].className}`}
+                        title={f.dedup.existingSource ? `Toggle between skipping this file and replacing ${f.dedup.existingSource}` : 'Toggle between skipping and uploading this file'}
+                      >
+                        {dedupBadges[f.dedup.decision].label} ⇄
+                      </button>
+                    )}
+                  </div>
+                )}
                 {f.error && <div className="mt-1 text-xs text-red-600">{f.error}</div>}
               </li>
             ))}
@@ -260,92 +561,13 @@ export const RagUploader = React.memo(({ sessionId }: { sessionId?: string }) =>
           <div className="space-y-3">
             {/* Sources section */}
             {sessionStatus.sources.length > 0 && (
-              <div className="border border-blue-200 rounded bg-white">
-                <div className="p-3 border-b border-blue-200 bg-blue-25">
-                  <div className="text-sm font-medium text-blue-800 mb-1">Sources</div>
-                  <div className="text-xs text-blue-600">
-                    {sessionStatus.chunkCount} chunks from {sessionStatus.sources.length} document{sessionStatus.sources.length > 1 ? 's' : ''}
-                  </div>
-                </div>
-                <div className="p-3">
-                  <div className="space-y-2">
-                    {sessionStatus.sources.map((source, index) => {
-                      return (
-                        <div key={index} style={{ 
-                          display: 'grid', 
-                          gridTemplateColumns: '1fr auto', 
-                          gap: '8px',
-                          alignItems: 'center',
-                          backgroundColor: 'white', 
-                          border: '1px solid #e5e7eb', 
-                          borderRadius: '6px', 
-                          padding: '8px 12px',
-                          width: '100%',
-                          boxSizing: 'border-box',
-                          transition: 'box-shadow 0.2s ease',
-                          boxShadow: '0 1px 2px rgba(0, 0, 0, 0.05)'
-                        }}>
-                          <div 
-                            style={{ 
-                              color: '#374151', 
-                              fontSize: '13px', 
-                              fontWeight: '500',
-                              fontFamily: 'ui-monospace, SFMono-Regular, "SF Mono", Consolas, "Liberation Mono", Menlo, monospace',
-                              whiteSpace: 'nowrap',
-                              overflow: 'hidden',
-                              textOverflow: 'ellipsis',
-                              minWidth: 0,
-                              lineHeight: '1.4'
-                            }}
-                            title={source || 'No filename'}
-                          >
-                            {source || 'No filename'}
-                          </div>
-                          <Tooltip content={`Remove all chunks from ${source}`}>
-                            <button
-                              onClick={() => clearSource(source)}
-                              disabled={busy}
-                              style={{
-                                backgroundColor: '#ef4444',
-                                color: 'white',
-                                border: 'none',
-                                borderRadius: '4px',
-                                padding: '5px 10px',
-                                fontSize: '11px',
-                                fontWeight: '500',
-                                cursor: busy ? 'not-allowed' : 'pointer',
-                                whiteSpace: 'nowrap',
-                                transition: 'all 0.2s ease',
-                                opacity: busy ? 0.6 : 1,
-                                transform: 'translateY(0)',
-                                boxShadow: '0 1px 2px rgba(239, 68, 68, 0.2)'
-                              }}
-                              onMouseOver={(e) => {
-                                if (!busy) {
-                                  const btn = e.target as HTMLButtonElement;
-                                  btn.style.backgroundColor = '#dc2626';
-                                  btn.style.transform = 'translateY(-1px)';
-                                  btn.style.boxShadow = '0 2px 4px rgba(220, 38, 38, 0.3)';
-                                }
-                              }}
-                              onMouseOut={(e) => {
-                                if (!busy) {
-                                  const btn = e.target as HTMLButtonElement;
-                                  btn.style.backgroundColor = '#ef4444';
-                                  btn.style.transform = 'translateY(0)';
-                                  btn.style.boxShadow = '0 1px 2px rgba(239, 68, 68, 0.2)';
-                                }
-                              }}
-                            >
-                              Clear
-                            </button>
-                          </Tooltip>
-                        </div>
-                      );
-                    })}
-                  </div>
-                </div>
-              </div>
+              <DocumentBrowser
+                sessionId={sessionId}
+                sources={sessionStatus.sources}
+                chunkCount={sessionStatus.chunkCount}
+                busy={busy}
+                onClearSource={clearSource}
+              />
             )}
             
             {/* Clear All button */}
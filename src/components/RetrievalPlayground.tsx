@@ -0,0 +1,123 @@
+import React, { useEffect, useState } from 'react';
+import { searchRag, type RagSearchHit } from '../api/RagClient';
+import { toApiError } from '../api/httpClient';
+import { ConditionalTooltip } from '../utils/uiUtils';
+
+interface RetrievalPlaygroundProps {
+  sessionId?: string;
+}
+
+/**
+ * Query the session's knowledge base directly to inspect what retrieval returns,
+ * independent of generation. Results refresh as the query, k or threshold change.
+ */
+export const RetrievalPlayground: React.FC<RetrievalPlaygroundProps> = React.memo(({ sessionId }) => {
+  const [query, setQuery] = useState('');
+  const [topK, setTopK] = useState(5);
+  const [minScore, setMinScore] = useState(0);
+  const [results, setResults] = useState<RagSearchHit[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    if (!query.trim()) {
+      setResults(null);
+      setError(null);
+      setLoading(false);
+      return;
+    }
+    const controller = new AbortController();
+    // Debounce so dragging a slider or typing doesn't flood the backend
+    const timer = window.setTimeout(async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const hits = await searchRag(query.trim(), { sessionId, topK, minScore, signal: controller.signal });
+        setResults(hits);
+      } catch (e) {
+        const apiError = toApiError(e, 'Retrieval failed');
+        if (!apiError.isCancelled) setError(apiError.message);
+      } finally {
+        if (!controller.signal.aborted) setLoading(false);
+      }
+    }, 300);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query, topK, minScore, sessionId]);
+
+  const toggleExpanded = (key: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key); else next.add(key);
+      return next;
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <input
+        type="search"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder="Test a retrieval query..."
+        className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-600"
+      />
+
+      <div className="grid grid-cols-2 gap-3 text-xs text-gray-700">
+        <ConditionalTooltip content="Number of chunks to retrieve (top-k).">
+          <label className="flex flex-col space-y-1">
+            <span>Top k: <span className="font-mono">{topK}</span></span>
+            <input type="range" min={1} max={20} step={1} value={topK} onChange={(e) => setTopK(Number(e.target.value))} />
+          </label>
+        </ConditionalTooltip>
+        <ConditionalTooltip content="Hide chunks whose similarity score is below this threshold.">
+          <label className="flex flex-col space-y-1">
+            <span>Min score: <span className="font-mono">{minScore.toFixed(2)}</span></span>
+            <input type="range" min={0} max={1} step={0.05} value={minScore} onChange={(e) => setMinScore(Number(e.target.value))} />
+          </label>
+        </ConditionalTooltip>
+      </div>
+
+      {loading && <div className="text-xs text-gray-500">Searching...</div>}
+      {error && <div className="text-xs text-red-600">{error}</div>}
+      {results && !loading && results.length === 0 && !error && (
+        <div className="text-xs text-gray-500">No chunks above the threshold.</div>
+      )}
+
+      {results && results.length > 0 && (
+        <ol className={`space-y-2 max-h-96 overflow-y-auto pr-1 ${loading ? 'opacity-60' : ''}`}>
+          {results.map((hit, index) => {
+            const key = `${hit.sourceName}:${hit.chunkIndex}`;
+            const isExpanded = expanded.has(key);
+            return (
+              <li key={key} className="border border-gray-200 rounded bg-surface p-2 text-xs">
+                <div className="flex items-center justify-between space-x-2">
+                  <span className="min-w-0 truncate font-mono text-gray-700" title={hit.sourceName}>
+                    {index + 1}. {hit.sourceName} <span className="text-gray-400">#{hit.chunkIndex}</span>
+                  </span>
+                  <span className="flex-shrink-0 font-mono text-gray-600">{hit.score.toFixed(3)}</span>
+                </div>
+                <div className="mt-1 h-1 bg-gray-100 rounded">
+                  <div className="h-1 bg-purple-500 rounded" style={{ width: `${Math.min(100, Math.max(0, hit.score * 100))}%` }}></div>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => toggleExpanded(key)}
+                  className={`mt-1 w-full text-left text-gray-700 whitespace-pre-wrap break-words ${isExpanded ? '' : 'line-clamp-3'}`}
+                  title={isExpanded ? 'Collapse' : 'Show full chunk'}
+                >
+                  {hit.text}
+                </button>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+});
+
+RetrievalPlayground.displayName = 'RetrievalPlayground';
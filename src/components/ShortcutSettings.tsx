@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import {
+  SHORTCUT_ACTIONS,
+  DEFAULT_SHORTCUTS,
+  eventToBinding,
+  findShortcutAction,
+  formatBinding,
+  hasModifier,
+  type ShortcutActionId,
+  type ShortcutMap,
+} from '../utils/keyboardShortcuts';
+
+interface ShortcutSettingsProps {
+  shortcuts: ShortcutMap;
+  onChange: (shortcuts: ShortcutMap) => void;
+}
+
+/**
+ * Shortcut map editor: click a binding, then press the new key combination
+ */
+export const ShortcutSettings: React.FC<ShortcutSettingsProps> = React.memo(({ shortcuts, onChange }) => {
+  const [recording, setRecording] = useState<ShortcutActionId | null>(null);
+  const [error, setError] = useState('');
+
+  const handleRecordKeyDown = (id: ShortcutActionId, e: React.KeyboardEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (e.key === 'Escape') {
+      setRecording(null);
+      return;
+    }
+    if (e.key === 'Backspace' || e.key === 'Delete') {
+      onChange({ ...shortcuts, [id]: '' });
+      setRecording(null);
+      return;
+    }
+    const binding = eventToBinding(e);
+    if (!binding) return;
+    if (!hasModifier(binding)) {
+      setError('Shortcuts need Ctrl, Alt or ⌘ so they don\'t interfere with typing');
+      return;
+    }
+    const conflict = findShortcutAction(shortcuts, binding);
+    const conflictLabel = conflict && conflict !== id ? SHORTCUT_ACTIONS.find(a => a.id === conflict)?.label : undefined;
+    // Move the binding instead of leaving two actions on the same keys
+    onChange({ ...shortcuts, ...(conflict && conflict !== id ? { [conflict]: '' } : {}), [id]: binding });
+    setError(conflictLabel ? `Removed ${formatBinding(binding)} from "${conflictLabel}"` : '');
+    setRecording(null);
+  };
+
+  return (
+    <div className="space-y-2">
+      <ul className="space-y-1">
+        {SHORTCUT_ACTIONS.map(action => (
+          <li key={action.id} className="flex items-center justify-between space-x-2 text-xs">
+            <span className="text-gray-700">{action.label}</span>
+            <button
+              type="button"
+              onClick={() => { setRecording(action.id); setError(''); }}
+              onKeyDown={recording === action.id ? (e) => handleRecordKeyDown(action.id, e) : undefined}
+              onBlur={() => { if (recording === action.id) setRecording(null); }}
+              className={`min-w-[72px] px-2 py-0.5 font-mono rounded border ${recording === action.id ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-gray-300 bg-surface text-gray-700 hover:bg-gray-100'}`}
+              title="Click, then press the new shortcut. Backspace clears it."
+            >
+              {recording === action.id ? 'Press keys…' : formatBinding(shortcuts[action.id])}
+            </button>
+          </li>
+        ))}
+      </ul>
+      {error && <p className="text-xs text-amber-700">{error}</p>}
+      <button
+        type="button"
+        onClick={() => { onChange(DEFAULT_SHORTCUTS); setError(''); }}
+        className="px-3 py-1 text-xs text-gray-700 border border-gray-300 rounded hover:bg-gray-100"
+      >
+        Reset to defaults
+      </button>
+    </div>
+  );
+});
+
+ShortcutSettings.displayName = 'ShortcutSettings';
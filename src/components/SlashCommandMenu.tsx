@@ -0,0 +1,38 @@
+import React from 'react';
+import type { SlashCommand } from '../utils/slashCommands';
+
+interface SlashCommandMenuProps {
+  commands: SlashCommand[];
+  activeIndex: number;
+  onSelect: (command: SlashCommand) => void;
+  onHover: (index: number) => void;
+}
+
+/**
+ * Autocomplete list shown above the composer while typing a slash command
+ */
+export const SlashCommandMenu: React.FC<SlashCommandMenuProps> = React.memo(({ commands, activeIndex, onSelect, onHover }) => (
+  <ul
+    className="absolute bottom-full left-0 right-0 mb-2 bg-surface border border-gray-200 rounded-lg shadow-lg overflow-hidden z-30"
+    role="listbox"
+    aria-label="Slash commands"
+  >
+    {commands.map((command, index) => (
+      <li
+        key={command.name}
+        role="option"
+        aria-selected={index === activeIndex}
+        // Keep focus in the composer
+        onMouseDown={(e) => { e.preventDefault(); onSelect(command); }}
+        onMouseEnter={() => onHover(index)}
+        className={`px-3 py-2 cursor-pointer text-sm ${index === activeIndex ? 'bg-blue-50' : 'bg-surface'}`}
+      >
+        <span className="font-mono text-gray-900">/{command.name}</span>
+        {command.args && <span className="font-mono text-gray-400"> {command.args}</span>}
+        <span className="ml-2 text-xs text-gray-500">{command.description}</span>
+      </li>
+    ))}
+  </ul>
+));
+
+SlashCommandMenu.displayName = 'SlashCommandMenu';
@@ -0,0 +1,138 @@
+import React, { useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { getRagChunks, type RagChunkPage } from '../api/RagClient';
+import { toApiError } from '../api/httpClient';
+
+interface SourceChunksPanelProps {
+  sourceName: string;
+  sessionId?: string;
+  onClose: () => void;
+}
+
+const PAGE_SIZE = 10;
+
+// Wrap case-insensitive matches of `query` in <mark>
+const highlight = (text: string, query: string): React.ReactNode => {
+  const q = query.trim();
+  if (!q) return text;
+  const escaped = q.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return text.split(new RegExp(`(${escaped})`, 'gi')).map((part, i) =>
+    part.toLowerCase() === q.toLowerCase() ? <mark key={i} className="bg-yellow-200 rounded-sm">{part}</mark> : part
+  );
+};
+
+/**
+ * Side panel for paging through and searching the extracted chunks of one knowledge base source
+ */
+export const SourceChunksPanel: React.FC<SourceChunksPanelProps> = React.memo(({ sourceName, sessionId, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [debouncedQuery, setDebouncedQuery] = useState('');
+  const [page, setPage] = useState(0);
+  const [result, setResult] = useState<RagChunkPage | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Debounce search so typing doesn't fire a request per keystroke
+  useEffect(() => {
+    const timer = window.setTimeout(() => {
+      setDebouncedQuery(query);
+      setPage(0);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  useEffect(() => {
+    let stale = false;
+    setLoading(true);
+    setError(null);
+    getRagChunks(sourceName, { sessionId, page, pageSize: PAGE_SIZE, query: debouncedQuery })
+      .then(data => { if (!stale) setResult(data); })
+      .catch(e => { if (!stale) setError(toApiError(e, 'Failed to load chunks').message); })
+      .finally(() => { if (!stale) setLoading(false); });
+    return () => { stale = true; };
+  }, [sourceName, sessionId, page, debouncedQuery]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const pageCount = result ? Math.max(1, Math.ceil(result.total / PAGE_SIZE)) : 1;
+
+  // Portal out of the sidebar so its overflow and transforms don't clip the panel
+  return createPortal(
+    <div className="fixed inset-0 z-50 flex justify-end" role="dialog" aria-label={`Chunks of ${sourceName}`}>
+      <div className="absolute inset-0 bg-black/20" onClick={onClose}></div>
+      <div className="relative w-full max-w-lg h-full bg-surface border-l border-gray-200 shadow-xl flex flex-col">
+        <div className="px-4 py-3 border-b border-gray-200 space-y-2">
+          <div className="flex items-start justify-between">
+            <div className="min-w-0">
+              <div className="text-sm font-medium text-gray-800 break-all">{sourceName}</div>
+              <div className="text-xs text-gray-500">
+                {result ? `${result.total} chunk${result.total === 1 ? '' : 's'}${debouncedQuery.trim() ? ' matching' : ''}` : 'Loading...'}
+              </div>
+            </div>
+            <button
+              type="button"
+              onClick={onClose}
+              className="p-1 text-gray-400 hover:text-gray-700 rounded"
+              title="Close"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search chunk text..."
+            className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-600"
+          />
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-4 py-3 space-y-3">
+          {error && <div className="text-sm text-red-700">{error}</div>}
+          {!error && result && result.chunks.length === 0 && !loading && (
+            <div className="text-sm text-gray-500">No chunks found.</div>
+          )}
+          {result?.chunks.map((chunk) => (
+            <div key={chunk.chunkIndex} className={`border border-gray-200 rounded ${loading ? 'opacity-60' : ''}`}>
+              <div className="px-2 py-1 text-xs text-gray-500 bg-gray-50 border-b border-gray-200">
+                Chunk {chunk.chunkIndex} · {chunk.text.length} chars
+              </div>
+              <div className="p-2 text-sm text-gray-800 whitespace-pre-wrap break-words">{highlight(chunk.text, debouncedQuery)}</div>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex items-center justify-between px-4 py-2 border-t border-gray-200 text-sm">
+          <button
+            type="button"
+            onClick={() => setPage(p => p - 1)}
+            disabled={page === 0 || loading}
+            className="px-2 py-1 rounded hover:bg-gray-100 disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            ‹ Previous
+          </button>
+          <span className="text-xs text-gray-500">Page {page + 1} of {pageCount}</span>
+          <button
+            type="button"
+            onClick={() => setPage(p => p + 1)}
+            disabled={page + 1 >= pageCount || loading}
+            className="px-2 py-1 rounded hover:bg-gray-100 disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            Next ›
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+});
+
+SourceChunksPanel.displayName = 'SourceChunksPanel';
@@ -0,0 +1,117 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { fillTemplate, parseTemplateVariables, type PromptTemplate } from '../utils/promptTemplates';
+
+interface TemplateFillDialogProps {
+  template: PromptTemplate;
+  canSend: boolean;
+  onInsert: (text: string) => void;
+  onSend: (text: string) => void;
+  onClose: () => void;
+}
+
+const fieldClass = 'w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-600';
+
+/**
+ * Form for a template's variables with a live preview of the filled prompt
+ */
+export const TemplateFillDialog: React.FC<TemplateFillDialogProps> = React.memo(({ template, canSend, onInsert, onSend, onClose }) => {
+  const variables = useMemo(() => parseTemplateVariables(template.body), [template.body]);
+  const [values, setValues] = useState<Record<string, string>>(
+    () => Object.fromEntries(variables.map(v => [v.name, v.defaultValue]))
+  );
+  const filled = fillTemplate(template.body, values);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const setValue = (name: string, value: string) => setValues(prev => ({ ...prev, [name]: value }));
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (canSend) onSend(filled);
+  };
+
+  return createPortal(
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4" role="dialog" aria-label={`Fill template ${template.name}`}>
+      <div className="absolute inset-0 bg-black/20" onClick={onClose}></div>
+      <form onSubmit={handleSubmit} className="relative w-full max-w-lg max-h-full bg-surface rounded-lg border border-gray-200 shadow-xl flex flex-col">
+        <div className="px-4 py-3 border-b border-gray-200">
+          <div className="text-sm font-medium text-gray-800">{template.name}</div>
+          {template.description && <div className="text-xs text-gray-500">{template.description}</div>}
+        </div>
+
+        <div className="px-4 py-3 space-y-3 overflow-y-auto">
+          {variables.length === 0 && <div className="text-xs text-gray-500">This template has no variables.</div>}
+          {variables.map((variable, index) => (
+            <label key={variable.name} className="block space-y-1">
+              <span className="text-xs font-medium text-gray-700">{variable.name}</span>
+              {variable.kind === 'select' ? (
+                <select
+                  value={values[variable.name] ?? ''}
+                  onChange={(e) => setValue(variable.name, e.target.value)}
+                  autoFocus={index === 0}
+                  className={`${fieldClass} bg-surface`}
+                >
+                  {variable.choices.map(choice => <option key={choice} value={choice}>{choice}</option>)}
+                </select>
+              ) : variable.kind === 'multiline' ? (
+                <textarea
+                  value={values[variable.name] ?? ''}
+                  onChange={(e) => setValue(variable.name, e.target.value)}
+                  autoFocus={index === 0}
+                  className={`${fieldClass} h-28 font-mono text-xs`}
+                />
+              ) : (
+                <input
+                  type="text"
+                  value={values[variable.name] ?? ''}
+                  onChange={(e) => setValue(variable.name, e.target.value)}
+                  autoFocus={index === 0}
+                  className={fieldClass}
+                />
+              )}
+            </label>
+          ))}
+
+          <div>
+            <div className="text-xs font-medium text-gray-700 mb-1">Preview</div>
+            <div className="text-xs text-gray-700 whitespace-pre-wrap bg-gray-50 border border-gray-200 rounded p-2 max-h-40 overflow-y-auto">{filled}</div>
+          </div>
+        </div>
+
+        <div className="px-4 py-3 border-t border-gray-200 flex justify-end space-x-2">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-3 py-1.5 text-sm text-gray-600 border border-gray-300 rounded hover:bg-gray-100"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={() => onInsert(filled)}
+            className="px-3 py-1.5 text-sm text-blue-700 bg-blue-100 rounded hover:bg-blue-200"
+          >
+            Insert
+          </button>
+          <button
+            type="submit"
+            disabled={!canSend || !filled.trim()}
+            className="px-3 py-1.5 text-sm text-white bg-blue-600 rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Send
+          </button>
+        </div>
+      </form>
+    </div>,
+    document.body
+  );
+});
+
+TemplateFillDialog.displayName = 'TemplateFillDialog';
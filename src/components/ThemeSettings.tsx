@@ -0,0 +1,59 @@
+import React from 'react';
+import { useSettings } from '../context/SettingsContext';
+import { THEME_MODES } from '../utils/theme';
+import { ConditionalTooltip } from '../utils/uiUtils';
+
+const DEFAULT_ACCENT = '#2563eb';
+
+/**
+ * Light/dark/system theme picker with an optional custom accent color
+ */
+export const ThemeSettings: React.FC = React.memo(() => {
+  const { settings, updateSettings } = useSettings();
+
+  return (
+    <div className="space-y-3">
+      <ConditionalTooltip content="System follows your operating system's light or dark preference.">
+        <div className="flex rounded border border-gray-300 overflow-hidden" role="radiogroup" aria-label="Theme">
+          {THEME_MODES.map(mode => (
+            <button
+              key={mode.id}
+              type="button"
+              role="radio"
+              aria-checked={settings.theme === mode.id}
+              onClick={() => updateSettings({ theme: mode.id })}
+              className={`flex-1 px-2 py-1.5 text-xs transition-colors ${
+                settings.theme === mode.id ? 'bg-blue-600 text-white' : 'bg-surface text-gray-700 hover:bg-gray-100'
+              }`}
+            >
+              {mode.label}
+            </button>
+          ))}
+        </div>
+      </ConditionalTooltip>
+
+      <ConditionalTooltip content="Color used for buttons, links and highlights. Reset to return to the default blue.">
+        <div className="flex items-center space-x-2">
+          <label htmlFor="accentColor" className="text-sm text-gray-700 flex-1">Accent Color</label>
+          <input
+            type="color"
+            id="accentColor"
+            value={settings.accentColor || DEFAULT_ACCENT}
+            onChange={(e) => updateSettings({ accentColor: e.target.value })}
+            className="w-8 h-8 p-0 border border-gray-300 rounded cursor-pointer"
+          />
+          <button
+            type="button"
+            onClick={() => updateSettings({ accentColor: '' })}
+            disabled={!settings.accentColor}
+            className="px-2 py-1 text-xs bg-gray-100 text-gray-700 rounded hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            Reset
+          </button>
+        </div>
+      </ConditionalTooltip>
+    </div>
+  );
+});
+
+ThemeSettings.displayName = 'ThemeSettings';
@@ -208,7 +208,7 @@ export const Tooltip: React.FC<TooltipProps> = React.memo(({
       {isVisible && typeof document !== 'undefined' && createPortal(
         <div
           ref={tooltipRef}
-          className="px-4 py-3 text-sm text-white bg-gray-800 rounded-xl shadow-2xl border border-gray-700 max-w-xs backdrop-blur-sm relative"
+          className="px-4 py-3 text-sm text-gray-50 bg-gray-800 rounded-xl shadow-2xl border border-gray-700 max-w-xs backdrop-blur-sm relative"
           style={{
             ...tooltipStyle,
             maxWidth: `${maxWidth}px`,
@@ -226,10 +226,10 @@ export const Tooltip: React.FC<TooltipProps> = React.memo(({
               borderStyle: 'solid',
               borderWidth: '1px',
               borderColor: 'transparent',
-              borderTopColor: position === 'bottom' ? '#374151' : 'transparent',
-              borderBottomColor: position === 'top' ? '#374151' : 'transparent',
-              borderLeftColor: position === 'right' ? '#374151' : 'transparent',
-              borderRightColor: position === 'left' ? '#374151' : 'transparent',
+              borderTopColor: position === 'bottom' ? 'rgb(var(--color-gray-700))' : 'transparent',
+              borderBottomColor: position === 'top' ? 'rgb(var(--color-gray-700))' : 'transparent',
+              borderLeftColor: position === 'right' ? 'rgb(var(--color-gray-700))' : 'transparent',
+              borderRightColor: position === 'left' ? 'rgb(var(--color-gray-700))' : 'transparent',
               ...getArrowOffsetStyles(),
             }}
           />
@@ -1,8 +1,43 @@
 import { createContext, useContext, useState, useEffect, useCallback, useRef, type ReactNode } from 'react';
 import { useSettings } from './SettingsContext';
-import { sendChatMessage, checkIsAdmin, streamChat, type ChatResponse, type ApiError, getOrCreateSession, getCurrentModelStatus, isProviderBusy as isProviderBusyApi, isBuiltInProviderBusy as isBuiltInProviderBusyApi, streamModelStatus, type ModelStatus } from '../api/FastAPIClient';
+import { sendChatMessage, checkIsAdmin, streamChat, type ChatResponse, getOrCreateSession, getCurrentModelStatus, isProviderBusy as isProviderBusyApi, isBuiltInProviderBusy as isBuiltInProviderBusyApi, streamModelStatus, type ModelStatus } from '../api/FastAPIClient';
+import { toApiError } from '../api/httpClient';
+import type { RagCitation } from '../api/RagClient';
+import {
+  listConversations,
+  loadConversation,
+  saveConversation,
+  deleteConversation as deleteStoredConversation,
+  createConversation as createStoredConversation,
+  getActiveConversationId,
+  setActiveConversationId as persistActiveConversationId,
+  generateId,
+  toSummary,
+  deriveTitle,
+  DEFAULT_CONVERSATION_TITLE,
+  type Conversation,
+  type ConversationSummary,
+} from '../utils/conversationStore';
+import {
+  createEmptyTree,
+  buildTreeFromMessages,
+  syncActivePath,
+  getActivePath,
+  getSiblingIds,
+  selectBranch,
+  type MessageTree,
+} from '../utils/messageTree';
+import {
+  createTimeline,
+  recordTimelineEvent,
+  completeTimeline,
+  stageFromAgentEvent,
+  type AgentTimeline,
+} from '../utils/agentTimeline';
+import { buildSystemPrompt } from '../utils/systemPrompt';
 
-interface Message {
+export interface Message {
+  // Also the node id in the message tree, so new messages use generateId() to stay unique across branches
   id: string;
   role: 'user' | 'assistant';
   content: string;
@@ -16,8 +51,13 @@ interface Message {
     completionTokens?: number;
     totalTokens?: number;
     isIndicator?: boolean;
+    isStreaming?: boolean;
     isError?: boolean;
     finishReason?: string;
+    // Agent stages observed while producing this answer
+    timeline?: AgentTimeline;
+    // Knowledge base chunks the answer was grounded on
+    citations?: RagCitation[];
   };
 }
 
@@ -37,11 +77,28 @@ interface AppState {
   isModelUnloading: boolean;
   isProviderBusy: boolean;
   isBuiltInProviderBusy: boolean; // New state for Built-In provider global rate limiting
+  // Conversation store
+  conversations: ConversationSummary[];
+  // Why saved conversations could not be loaded, if they could not
+  conversationStoreError: string | null;
+  activeConversation: ConversationSummary | null;
+  createConversation: () => Promise<void>;
+  switchConversation: (id: string) => Promise<void>;
+  renameConversation: (id: string, title: string) => Promise<void>;
+  deleteConversation: (id: string) => Promise<void>;
+  setConversationModel: (providerId: string, modelId: string) => void;
   importMemory: (memoryToken?: string, memoryChunks?: string[]) => void;
   addUserMessage: (message: string) => void;
   sendToAgent: (text: string, settings?: { disableLongMemoryRecall?: boolean; disableAllMemoryRecall?: boolean }) => void;
   clearMessages: () => void;
   retryLastMessage: (settings?: { disableLongMemoryRecall?: boolean; disableAllMemoryRecall?: boolean }) => void;
+  stopGeneration: () => void;
+  // Append a prompt and an answer produced outside sendToAgent (e.g. the winner of a model comparison)
+  adoptComparison: (prompt: string, answer: Message, memory?: { token?: string; chunks?: string[] }) => void;
+  // Branching: edit a user message to fork the conversation and browse sibling versions
+  editMessage: (messageId: string, text: string, settings?: { disableLongMemoryRecall?: boolean; disableAllMemoryRecall?: boolean }) => void;
+  getBranchInfo: (messageId: string) => { index: number; count: number } | null;
+  switchBranch: (messageId: string, direction: -1 | 1) => void;
   refreshModelStatus: () => Promise<void>;
 }
 
@@ -60,11 +117,24 @@ const AppContext = createContext<AppState>({
   isModelUnloading: false,
   isProviderBusy: false,
   isBuiltInProviderBusy: false,
+  conversations: [],
+  conversationStoreError: null,
+  activeConversation: null,
+  createConversation: async () => {},
+  switchConversation: async () => {},
+  renameConversation: async () => {},
+  deleteConversation: async () => {},
+  setConversationModel: () => {},
   importMemory: () => {},
   addUserMessage: () => {},
   sendToAgent: () => {},
   clearMessages: () => {},
   retryLastMessage: () => {},
+  stopGeneration: () => {},
+  adoptComparison: () => {},
+  editMessage: () => {},
+  getBranchInfo: () => null,
+  switchBranch: () => {},
   refreshModelStatus: async () => {},
 });
 
@@ -86,13 +156,110 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
   const [isModelUnloading, setIsModelUnloading] = useState(false);
   const [isProviderBusy, setIsProviderBusy] = useState(false);
   const [isBuiltInProviderBusy, setIsBuiltInProviderBusy] = useState(false); // New state for Built-In provider global rate limiting
+  // Conversation store state
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+  const [conversationStoreError, setConversationStoreError] = useState<string | null>(null);
+  const [activeConversationId, setActiveConversationId] = useState<string>('');
+  const activeConversationIdRef = useRef<string>('');
+  // All branches of the active conversation; `messages` is its active path
+  const [messageTree, setMessageTree] = useState<MessageTree>(createEmptyTree);
+  // Tree as it was loaded from the store; used to skip re-saving an unchanged conversation
+  const loadedTreeRef = useRef<MessageTree | null>(null);
 
-  // Check admin status on mount
+  const upsertSummary = useCallback((summary: ConversationSummary) => {
+    setConversations(prev => [summary, ...prev.filter(c => c.id !== summary.id)].sort((a, b) => b.updatedAt - a.updatedAt));
+  }, []);
+
+  // Make a stored conversation the active one and load its messages into the chat
+  const activateConversation = useCallback((conversation: Conversation) => {
+    // Conversations saved before branching existed only have the flat message list
+    const tree = conversation.tree ?? buildTreeFromMessages(conversation.messages);
+    loadedTreeRef.current = tree;
+    activeConversationIdRef.current = conversation.id;
+    setActiveConversationId(conversation.id);
+    persistActiveConversationId(conversation.id);
+    setMessageTree(tree);
+    setMessages(getActivePath(tree));
+    setSessionId(conversation.sessionId);
+    const lastUser = [...conversation.messages].reverse().find(m => m.role === 'user');
+    setLastUserMessage(lastUser?.content || '');
+  }, []);
+
+  // Load (or create) the active conversation on mount
   useEffect(() => {
-    // ensure we have a session early to scope memory storage
     (async () => {
-      try { const s = await getOrCreateSession(); setSessionId(s.sessionId); } catch {}
+      try {
+        const list = await listConversations();
+        const storedId = getActiveConversationId();
+        let active = storedId ? await loadConversation(storedId) : undefined;
+        if (!active && list.length) {
+          active = await loadConversation(list[0].id);
+        }
+        if (!active) {
+          // First run: bind the initial conversation to the backend session so existing memory keeps working
+          let initialSessionId = '';
+          try { initialSessionId = (await getOrCreateSession()).sessionId; } catch { /* fall back to a local id */ }
+          active = createStoredConversation(
+            initialSessionId || generateId(),
+            localStorage.getItem('currentProviderId') || undefined,
+            localStorage.getItem('currentModelId') || undefined
+          );
+          await saveConversation(active);
+          list.unshift(toSummary(active));
+        }
+        setConversations(list);
+        activateConversation(active);
+      } catch (error) {
+        console.error('Failed to load conversations, using an unsaved session:', error);
+        setConversationStoreError(error instanceof Error ? error.message : 'Saved conversations could not be loaded.');
+        // ensure we have a session early to scope memory storage
+        try { const s = await getOrCreateSession(); setSessionId(s.sessionId); } catch { /* offline */ }
+      }
     })();
+  }, [activateConversation]);
+
+  // Fold the displayed branch into the message tree (indicators and in-flight streams excluded)
+  useEffect(() => {
+    const settled = messages.filter(m => !m.metadata?.isIndicator && !m.metadata?.isStreaming);
+    setMessageTree(prev => syncActivePath(prev, settled));
+  }, [messages]);
+
+  // Persist the message tree of the active conversation (debounced). A save still
+  // pending when the conversation changes or the provider unmounts runs right away.
+  const pendingSaveRef = useRef<(() => void) | null>(null);
+  useEffect(() => () => pendingSaveRef.current?.(), []);
+  useEffect(() => {
+    const id = activeConversationId;
+    if (!id || messageTree === loadedTreeRef.current) return;
+    const persisted = getActivePath(messageTree);
+    const save = async () => {
+      pendingSaveRef.current = null;
+      try {
+        const existing = await loadConversation(id);
+        if (!existing) return;
+        const updated: Conversation = {
+          ...existing,
+          messages: persisted,
+          tree: messageTree,
+          updatedAt: Date.now(),
+          title: existing.title === DEFAULT_CONVERSATION_TITLE ? deriveTitle(persisted) : existing.title,
+        };
+        await saveConversation(updated);
+        upsertSummary(toSummary(updated));
+      } catch (error) {
+        console.error('Failed to save conversation:', error);
+      }
+    };
+    pendingSaveRef.current = save;
+    const timeout = setTimeout(save, 300);
+    return () => {
+      clearTimeout(timeout);
+      if (pendingSaveRef.current === save && activeConversationIdRef.current !== id) save();
+    };
+  }, [messageTree, activeConversationId, upsertSummary]);
+
+  // Check admin status on mount
+  useEffect(() => {
     const checkAdmin = async () => {
       const adminStatus = await checkIsAdmin();
       setIsAdmin(adminStatus);
@@ -335,7 +502,7 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
 
   const addUserMessage = (text: string) => {
     const newMessage: Message = {
-      id: Date.now().toString(), // Simple ID
+      id: generateId(),
       role: "user",
       content: text,
       timestamp: new Date()
@@ -346,8 +513,29 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
 
   const sendingRef = useRef<boolean>(false);
   const activeRequestRef = useRef<string | null>(null); // Track active request by message content
+  const cancelActiveRequestRef = useRef<(() => void) | null>(null); // Set while a request can be stopped
+
+  const stopGeneration = () => {
+    cancelActiveRequestRef.current?.();
+  };
+
+  const adoptComparison = (prompt: string, answer: Message, memory?: { token?: string; chunks?: string[] }) => {
+    const userMessage: Message = {
+      id: generateId(),
+      role: "user",
+      content: prompt,
+      timestamp: new Date(answer.timestamp.getTime() - 1)
+    };
+    setMessages(prev => [...prev, userMessage, answer]);
+    setLastUserMessage(prompt);
+    if (memory?.token || memory?.chunks) {
+      localStorage.setItem(`mem:${sessionId}`, JSON.stringify(memory));
+    }
+  };
   
-  const sendToAgent = async (text: string, options?: { disableLongMemoryRecall?: boolean; disableAllMemoryRecall?: boolean }) => {
+  // `regenerate` answers the user message already at the end of the chat instead of adding a new one.
+  // `forkAt` cuts the displayed branch at that index, but only once the request is actually sent.
+  const sendToAgent = async (text: string, options?: { disableLongMemoryRecall?: boolean; disableAllMemoryRecall?: boolean }, request?: { regenerate?: boolean; forkAt?: number }) => {
     if (sendingRef.current) {
       return; // guard against double send due to rapid events
     }
@@ -376,7 +564,13 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
       }
     }
 
-    addUserMessage(text);
+    const forkAt = request?.forkAt;
+    if (forkAt !== undefined) {
+      setMessages(prev => prev.slice(0, forkAt));
+    }
+    if (!request?.regenerate) {
+      addUserMessage(text);
+    }
     setIsLoading(true);
     sendingRef.current = true;
     activeRequestRef.current = text; // Track this request
@@ -387,6 +581,22 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
       let indicatorTimer: number | undefined;
       let indicatorShown = false;
       let indicatorShownAt = 0;
+      // Incremental answer state: the message receiving `delta` tokens and the text so far
+      let streamMessageId: string | undefined;
+      let streamedText = '';
+      // Cancellation state for the Stop button: covers the SSE stream and the REST fallback
+      let cancelled = false;
+      const abortController = new AbortController();
+      // Agent stages with timestamps, attached to whichever message ends the request
+      const timeline = createTimeline();
+
+      // Reset request tracking so the UI never stays stuck in isLoading
+      const finishRequest = () => {
+        setIsLoading(false);
+        sendingRef.current = false;
+        activeRequestRef.current = null; // Clear active request
+        cancelActiveRequestRef.current = null;
+      };
 
       // load memory for this session (unless all memory is disabled)
       const memKey = `mem:${sessionId}`;
@@ -400,21 +610,20 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
 
       const close = streamChat({
         message: text,
+        sessionId,
         memoryToken: memory?.token,
+        memoryChunks: memory?.chunks,
         disableLongMemoryRecall: options?.disableLongMemoryRecall,
         disableAllMemoryRecall: options?.disableAllMemoryRecall,
-        systemPrompt: ((): string | undefined => {
-          const sys = (settings.systemPrompt && settings.systemPrompt.trim().length > 0) ? settings.systemPrompt.trim() : '';
-          const ch = (settings.characterPrompt && settings.characterPrompt.trim().length > 0) ? settings.characterPrompt.trim() : '';
-          if (sys && ch) return `${sys}\n\n${ch}`;
-          if (sys) return sys;
-          if (ch) return ch; // if only character prompt is set, still pass as system to keep ordering first
-          return undefined;
-        })(),
+        systemPrompt: buildSystemPrompt(settings),
         unloadAfterCall: settings.unloadAfterCall
       }, (evt) => {
+        if (cancelled) return;
         if (evt.type === 'agent') {
           const statusText = evt.data?.message || 'Processing...';
+          recordTimelineEvent(timeline, stageFromAgentEvent(evt.data), statusText);
+          // Once tokens are streaming into the answer the indicator is no longer needed
+          if (streamMessageId) return;
           if (!indicatorShown && indicatorTimer === undefined) {
             indicatorTimer = window.setTimeout(() => {
               setMessages(prev => {
@@ -438,13 +647,38 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
               return prev;
             });
           }
+        } else if (evt.type === 'delta') {
+          const token: string = typeof evt.data?.text === 'string' ? evt.data.text : '';
+          if (!token) return;
+          if (indicatorTimer !== undefined) {
+            clearTimeout(indicatorTimer);
+            indicatorTimer = undefined;
+          }
+          streamedText += token;
+          const content = streamedText;
+          const isNewStream = !streamMessageId;
+          if (isNewStream) recordTimelineEvent(timeline, 'stream', 'First token received');
+          if (!streamMessageId) streamMessageId = `${Date.now()}-stream`;
+          const id = streamMessageId;
+          setMessages(prev => {
+            if (isNewStream) {
+              // The indicator message (if shown) becomes the message being streamed into
+              const last = prev[prev.length - 1];
+              const streaming: Message = { id, role: 'assistant', content, timestamp: new Date(), metadata: { isStreaming: true } };
+              if (last && last.role === 'assistant' && last.metadata?.isIndicator) {
+                return [...prev.slice(0, -1), streaming];
+              }
+              return [...prev, streaming];
+            }
+            return prev.map(m => m.id === id ? { ...m, content } : m);
+          });
         } else if (evt.type === 'answer') {
           done = true;
           // Clear busy on successful answer
           setBusy(false);
-          const resp = evt.data as ChatResponse;
+          const resp = evt.data;
           const agentMessage: Message = {
-            id: Date.now().toString(), // Simple ID
+            id: generateId(),
             role: "assistant",
             content: resp.message,
             timestamp: new Date(),
@@ -455,6 +689,8 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
               promptTokens: resp.usage?.promptTokens,
               completionTokens: resp.usage?.completionTokens,
               totalTokens: resp.usage?.totalTokens,
+              timeline: completeTimeline(timeline),
+              citations: resp.citations,
             }
           };
           if (indicatorTimer !== undefined) {
@@ -462,6 +698,9 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
             indicatorTimer = undefined;
           }
           const replaceFinal = () => setMessages(prev => {
+            if (streamMessageId && prev.some(m => m.id === streamMessageId)) {
+              return prev.map(m => m.id === streamMessageId ? agentMessage : m);
+            }
             if (prev.length && prev[prev.length - 1].role === 'assistant' && prev[prev.length - 1].content.startsWith('Agent ') && prev[prev.length - 1].metadata?.isIndicator) {
               return [...prev.slice(0, -1), agentMessage];
             }
@@ -469,15 +708,13 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
           });
           const elapsed = indicatorShown ? (Date.now() - indicatorShownAt) : 0;
           const minVisible = 450;
-          if (indicatorShown && elapsed < minVisible) {
+          if (indicatorShown && !streamMessageId && elapsed < minVisible) {
             setTimeout(replaceFinal, minVisible - elapsed);
           } else {
             replaceFinal();
           }
           setConnectionStatus('online');
-          setIsLoading(false);
-          sendingRef.current = false;
-          activeRequestRef.current = null; // Clear active request
+          finishRequest();
           if (!resp.cached) {
             startRateLimitCooldown();
           }
@@ -487,17 +724,28 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
             const m = { token: meta.memoryToken, chunks: meta.memoryChunks };
             localStorage.setItem(memKey, JSON.stringify(m));
           }
-        } else if (evt.type === 'error') {
+        } else if (evt.type === 'error' || evt.type === 'provider-error') {
           // Mark done; handle rate limit or generic error; do not fallback
           done = true;
-          const msg: string = (evt.data && evt.data.message) ? String(evt.data.message) : 'Error occurred';
-          const isConnectionError = evt.data && evt.data.isConnectionError;
+          const msg: string = evt.data?.message ? String(evt.data.message) : 'Error occurred';
+          const isConnectionError = evt.data?.isConnectionError;
           
           if (indicatorTimer !== undefined) {
             clearTimeout(indicatorTimer);
             indicatorTimer = undefined;
           }
           
+          // Keep a partially streamed answer, finalized like a cancelled one
+          const partialId = streamMessageId;
+          if (partialId) {
+            setMessages(prev => prev.map(m => m.id === partialId
+              ? { ...m, metadata: { ...m.metadata, isStreaming: false, finishReason: 'error', timeline: completeTimeline(timeline) } }
+              : m));
+          }
+          // Errors follow the conversation instead of replacing its last message
+          const appendError = (errorMessage: Message) =>
+            setMessages(prev => [...prev.filter(m => !m.metadata?.isIndicator), errorMessage]);
+
           const prov = ((): string | null => { try { return localStorage.getItem('currentProviderId'); } catch { return null; }})();
           
           if (msg.toLowerCase().includes('rate limit') && prov && prov.toLowerCase() === 'ollama') {
@@ -506,32 +754,33 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
           } else if (msg.toLowerCase().includes('rate limit')) {
             startRateLimitCooldown();
             const rateMsg: Message = {
-              id: Date.now().toString(), // Simple ID
+              id: generateId(),
               role: "assistant",
               content: 'Rate limit exceeded. Please wait before sending another message.',
               timestamp: new Date(),
               metadata: { isError: true }
             };
-            setMessages(prev => prev.length ? [...prev.slice(0, -1), rateMsg] : [rateMsg]);
+            appendError(rateMsg);
             setConnectionStatus('online');
           } else if (isConnectionError) {
-            // Connection error - don't show as chat message, just update connection status
+            // Connection error - only worth a chat message when it cut an answer short
             setConnectionStatus('offline');
+            if (partialId) {
+              appendError({ id: generateId(), role: "assistant", content: msg, timestamp: new Date(), metadata: { isError: true } });
+            }
             console.log('SSE connection error detected, connection status set to offline');
           } else {
             // Print provider/OpenAI/Anthropic error message as its own chat message
             const errorMsg: Message = {
-              id: Date.now().toString(), // Simple ID
+              id: generateId(),
               role: "assistant",
               content: msg,
               timestamp: new Date(),
-              metadata: { isError: true }
+              metadata: { isError: true, timeline: completeTimeline(timeline) }
             };
-            setMessages(prev => prev.length ? [...prev.slice(0, -1), errorMsg] : [errorMsg]);
+            appendError(errorMsg);
           }
-          setIsLoading(false);
-          sendingRef.current = false;
-          activeRequestRef.current = null; // Clear active request
+          finishRequest();
         }
       });
 
@@ -548,10 +797,12 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
       const timeoutMs = getTimeoutForProvider(providerId);
       
       // Safety timeout in case stream stalls - but only if no response received
-      setTimeout(async () => {
-        if (!done && activeRequestRef.current === text) { // Only proceed if this is still the active request
+      const fallbackTimer = window.setTimeout(async () => {
+        // Only proceed if this is still the active request and no tokens have started streaming
+        if (!done && !cancelled && !streamMessageId && activeRequestRef.current === text) {
           try {
             console.log(`SSE stream timed out after ${timeoutMs}ms, falling back to REST request`);
+            recordTimelineEvent(timeline, 'fallback', `Stream timed out after ${timeoutMs / 1000}s, retrying over REST`);
             const response: ChatResponse = await sendChatMessage({
               message: text,
               sessionId,
@@ -559,17 +810,10 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
               memoryChunks: memory?.chunks,
               disableLongMemoryRecall: options?.disableLongMemoryRecall,
               disableAllMemoryRecall: options?.disableAllMemoryRecall,
-              systemPrompt: ((): string | undefined => {
-                const sys = (settings.systemPrompt && settings.systemPrompt.trim().length > 0) ? settings.systemPrompt.trim() : '';
-                const ch = (settings.characterPrompt && settings.characterPrompt.trim().length > 0) ? settings.characterPrompt.trim() : '';
-                if (sys && ch) return `${sys}\n\n${ch}`;
-                if (sys) return sys;
-                if (ch) return ch;
-                return undefined;
-              })()
-            });
+              systemPrompt: buildSystemPrompt(settings)
+            }, { signal: abortController.signal });
             const agentMessage: Message = {
-              id: Date.now().toString(), // Simple ID
+              id: generateId(),
               role: "assistant",
               content: response.message,
               timestamp: new Date(),
@@ -580,13 +824,14 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
                 promptTokens: response.usage?.promptTokens,
                 completionTokens: response.usage?.completionTokens,
                 totalTokens: response.usage?.totalTokens,
+                timeline: completeTimeline(timeline),
+                citations: response.citations,
               }
             };
             setMessages(prev => prev.length && prev[prev.length - 1].content.startsWith('Agent ') ? [...prev.slice(0, -1), agentMessage] : [...prev, agentMessage]);
             setConnectionStatus('online');
             setBusy(false); // Clear busy on successful response
-            setIsLoading(false);
-            activeRequestRef.current = null; // Clear active request
+            finishRequest();
             try {
               const prov = localStorage.getItem('currentProviderId');
               if (!response.cached && (!prov || prov.toLowerCase() !== 'ollama')) {
@@ -599,15 +844,42 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
               localStorage.setItem(memKey, JSON.stringify(m));
             }
           } catch (e) {
-            // handled by outer catch
+            // A cancelled request was already finalized by the Stop handler
+            if (!cancelled) {
+              const apiError = toApiError(e);
+              setMessages(prev => [...prev.filter(m => !m.metadata?.isIndicator), {
+                id: generateId(),
+                role: "assistant",
+                content: apiError.message || "Sorry, I encountered an error. Please try again.",
+                timestamp: new Date(),
+                metadata: { isError: true, timeline: completeTimeline(timeline) }
+              }]);
+              if (apiError.isNetworkError) setConnectionStatus('offline');
+              finishRequest();
+            }
           } finally {
             close();
           }
         }
       }, timeoutMs);
 
+      cancelActiveRequestRef.current = () => {
+        cancelled = true;
+        done = true;
+        close();
+        abortController.abort();
+        if (indicatorTimer !== undefined) clearTimeout(indicatorTimer);
+        clearTimeout(fallbackTimer);
+        // Keep whatever was streamed so far and mark it as cancelled; drop the status indicator
+        setMessages(prev => prev
+          .filter(m => !m.metadata?.isIndicator)
+          .map(m => m.id === streamMessageId ? { ...m, metadata: { ...m.metadata, isStreaming: false, finishReason: 'cancelled', timeline: completeTimeline(timeline) } } : m));
+        setBusy(false);
+        finishRequest();
+      };
+
     } catch (error: any) {
-      const apiError = error as ApiError;
+      const apiError = toApiError(error);
       
       if (apiError.isRateLimited) {
         try {
@@ -621,7 +893,7 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
         } catch {}
         startRateLimitCooldown();
         setMessages(prev => [...prev, {
-          id: Date.now().toString(), // Simple ID
+          id: generateId(),
           role: "assistant",
           content: "Rate limit exceeded. Please wait before sending another message.",
           timestamp: new Date(),
@@ -630,7 +902,7 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
       } else if (apiError.isNetworkError) {
         setConnectionStatus('offline');
         setMessages(prev => [...prev, {
-          id: Date.now().toString(), // Simple ID
+          id: generateId(),
           role: "assistant",
           content: "Connection error. Please check your internet connection and try again.",
           timestamp: new Date(),
@@ -638,7 +910,7 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
         }]);
       } else {
         setMessages(prev => [...prev, {
-          id: Date.now().toString(), // Simple ID
+          id: generateId(),
           role: "assistant",
           content: apiError.message || "Sorry, I encountered an error. Please try again.",
           timestamp: new Date(),
@@ -651,13 +923,102 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
     }
   };
 
+  const createConversation = async () => {
+    if (sendingRef.current) return;
+    const conversation = createStoredConversation(
+      generateId(),
+      localStorage.getItem('currentProviderId') || undefined,
+      localStorage.getItem('currentModelId') || undefined
+    );
+    try {
+      await saveConversation(conversation);
+    } catch (error) {
+      console.error('Failed to create conversation:', error);
+      return;
+    }
+    upsertSummary(toSummary(conversation));
+    activateConversation(conversation);
+  };
+
+  const switchConversation = async (id: string) => {
+    if (sendingRef.current || id === activeConversationIdRef.current) return;
+    try {
+      const conversation = await loadConversation(id);
+      if (conversation) activateConversation(conversation);
+    } catch (error) {
+      console.error('Failed to switch conversation:', error);
+    }
+  };
+
+  const renameConversation = async (id: string, title: string) => {
+    try {
+      const existing = await loadConversation(id);
+      if (!existing) return;
+      const updated: Conversation = { ...existing, title: title.trim() || DEFAULT_CONVERSATION_TITLE };
+      await saveConversation(updated);
+      upsertSummary(toSummary(updated));
+    } catch (error) {
+      console.error('Failed to rename conversation:', error);
+    }
+  };
+
+  const deleteConversation = async (id: string) => {
+    if (sendingRef.current) return;
+    try {
+      const existing = await loadConversation(id);
+      await deleteStoredConversation(id);
+      if (existing?.sessionId) {
+        localStorage.removeItem(`mem:${existing.sessionId}`);
+      }
+      const remaining = conversations.filter(c => c.id !== id);
+      setConversations(remaining);
+      if (id !== activeConversationIdRef.current) return;
+      const next = remaining.length ? await loadConversation(remaining[0].id) : undefined;
+      if (next) {
+        activateConversation(next);
+      } else {
+        await createConversation();
+      }
+    } catch (error) {
+      console.error('Failed to delete conversation:', error);
+    }
+  };
+
+  // Remember the provider/model selection on the active conversation
+  const setConversationModel = useCallback((providerId: string, modelId: string) => {
+    const id = activeConversationIdRef.current;
+    if (!id) return;
+    (async () => {
+      try {
+        const existing = await loadConversation(id);
+        if (!existing || (existing.providerId === providerId && existing.modelId === modelId)) return;
+        const updated: Conversation = { ...existing, providerId, modelId };
+        await saveConversation(updated);
+        upsertSummary(toSummary(updated));
+      } catch (error) {
+        console.error('Failed to save conversation model:', error);
+      }
+    })();
+  }, [upsertSummary]);
+
+  const activeConversation = conversations.find(c => c.id === activeConversationId) || null;
+
   const clearMessages = () => {
     setMessages([]);
+    setMessageTree(createEmptyTree());
     setLastUserMessage('');
   };
 
   const retryLastMessage = (settings?: { disableLongMemoryRecall?: boolean; disableAllMemoryRecall?: boolean }) => {
     if (lastUserMessage && !isLoading && !isRateLimited) {
+      const last = messages[messages.length - 1];
+      const previous = messages[messages.length - 2];
+      if (last?.role === 'assistant' && previous?.role === 'user' && previous.content === lastUserMessage) {
+        // Answer the same user message again; the new answer becomes a sibling version of the old one
+        setMessages(prev => prev.slice(0, -1));
+        sendToAgent(lastUserMessage, settings, { regenerate: true });
+        return;
+      }
       // Remove the last user and agent messages
       setMessages(prev => prev.slice(0, -2));
       // Retry the last message
@@ -665,6 +1026,32 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
     }
   };
 
+  // Fork the conversation at a user message: the edited text is sent as a sibling of the original
+  const editMessage = (messageId: string, text: string, settings?: { disableLongMemoryRecall?: boolean; disableAllMemoryRecall?: boolean }) => {
+    const index = messages.findIndex(m => m.id === messageId);
+    if (index === -1 || messages[index].role !== 'user' || !text.trim() || isLoading) return;
+    sendToAgent(text, settings, { forkAt: index });
+  };
+
+  const getBranchInfo = (messageId: string) => {
+    const siblings = getSiblingIds(messageTree, messageId);
+    if (siblings.length < 2) return null;
+    return { index: siblings.indexOf(messageId), count: siblings.length };
+  };
+
+  const switchBranch = (messageId: string, direction: -1 | 1) => {
+    if (isLoading) return;
+    const siblings = getSiblingIds(messageTree, messageId);
+    const target = siblings[siblings.indexOf(messageId) + direction];
+    if (!target) return;
+    const tree = selectBranch(messageTree, target);
+    const path = getActivePath(tree);
+    setMessageTree(tree);
+    setMessages(path);
+    const lastUser = [...path].reverse().find(m => m.role === 'user');
+    setLastUserMessage(lastUser?.content || '');
+  };
+
   const importMemory = (memoryToken?: string, memoryChunks?: string[]) => {
     const memKey = `mem:${sessionId}`;
     if (memoryToken || memoryChunks) {
@@ -691,11 +1078,24 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
       isModelUnloading,
       isProviderBusy,
       isBuiltInProviderBusy,
+      conversations,
+      conversationStoreError,
+      activeConversation,
+      createConversation,
+      switchConversation,
+      renameConversation,
+      deleteConversation,
+      setConversationModel,
       importMemory,
       addUserMessage,
       sendToAgent,
       clearMessages,
       retryLastMessage,
+      stopGeneration,
+      adoptComparison,
+      editMessage,
+      getBranchInfo,
+      switchBranch,
       refreshModelStatus
     }}>
       {children}
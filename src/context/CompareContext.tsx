@@ -0,0 +1,154 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import type { ReactNode } from 'react';
+import { sendChatMessage } from '../api/FastAPIClient';
+import { toApiError } from '../api/httpClient';
+import { useAppContext, type Message } from './AppContext';
+import { useSettings } from './SettingsContext';
+import { generateId } from '../utils/conversationStore';
+import { buildSystemPrompt } from '../utils/systemPrompt';
+import { CompareContext, MIN_COMPARE_TARGETS, MAX_COMPARE_TARGETS, type CompareTarget, type ComparisonResult, type ComparisonRun } from './compare';
+
+const COMPARE_ENABLED_KEY = 'compareMode';
+const COMPARE_TARGETS_KEY = 'compareTargets';
+
+const loadTargets = (): CompareTarget[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(COMPARE_TARGETS_KEY) || '[]');
+    return Array.isArray(parsed) ? parsed.slice(0, MAX_COMPARE_TARGETS) : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Multi-model comparison: sends one prompt to several provider/model pairs in parallel
+ * and lets the user continue the conversation with the best answer.
+ */
+export const CompareProvider = ({ children }: { children: ReactNode }) => {
+  const { sessionId, adoptComparison } = useAppContext();
+  const { settings } = useSettings();
+  const [compareEnabled, setCompareEnabled] = useState(() => localStorage.getItem(COMPARE_ENABLED_KEY) === 'true');
+  const [targets, setTargets] = useState<CompareTarget[]>(loadTargets);
+  const [run, setRun] = useState<ComparisonRun | null>(null);
+  const controllersRef = useRef<AbortController[]>([]);
+
+  useEffect(() => {
+    localStorage.setItem(COMPARE_ENABLED_KEY, String(compareEnabled));
+  }, [compareEnabled]);
+
+  useEffect(() => {
+    localStorage.setItem(COMPARE_TARGETS_KEY, JSON.stringify(targets));
+  }, [targets]);
+
+  const updateResult = (runId: string, index: number, changes: Partial<ComparisonResult>) => {
+    setRun(prev => prev && prev.id === runId
+      ? { ...prev, results: prev.results.map((r, i) => i === index ? { ...r, ...changes } : r) }
+      : prev);
+  };
+
+  const stopComparison = useCallback(() => {
+    controllersRef.current.forEach(c => c.abort());
+    controllersRef.current = [];
+  }, []);
+
+  const runComparison = (prompt: string) => {
+    const selected = targets.filter(t => t.providerId && t.modelId);
+    if (selected.length < MIN_COMPARE_TARGETS) return;
+    stopComparison();
+
+    let memory: { token?: string; chunks?: string[] } | undefined;
+    if (!settings.disableAllMemoryRecall) {
+      try {
+        memory = JSON.parse(localStorage.getItem(`mem:${sessionId}`) || 'null') ?? undefined;
+      } catch { /* compare without memory */ }
+    }
+
+    const runId = generateId();
+    setRun({ id: runId, prompt, results: selected.map(target => ({ target, status: 'pending' })) });
+    controllersRef.current = selected.map((target, index) => {
+      const controller = new AbortController();
+      const startedAt = performance.now();
+      sendChatMessage({
+        message: prompt,
+        sessionId,
+        memoryToken: memory?.token,
+        memoryChunks: memory?.chunks,
+        disableLongMemoryRecall: settings.disableLongMemoryRecall,
+        disableAllMemoryRecall: settings.disableAllMemoryRecall,
+        systemPrompt: buildSystemPrompt(settings),
+        providerId: target.providerId,
+        modelId: target.modelId,
+      }, { signal: controller.signal })
+        .then(response => updateResult(runId, index, { status: 'done', response, latencyMs: performance.now() - startedAt }))
+        .catch(error => {
+          const apiError = toApiError(error);
+          updateResult(runId, index, {
+            status: apiError.isCancelled ? 'cancelled' : 'error',
+            error: apiError.message,
+            latencyMs: performance.now() - startedAt,
+          });
+        });
+      return controller;
+    });
+  };
+
+  const pickWinner = (index: number): CompareTarget | null => {
+    const result = run?.results[index];
+    if (!run || !result?.response) return null;
+    const { response, target } = result;
+    const answer: Message = {
+      id: generateId(),
+      role: "assistant",
+      content: response.message,
+      timestamp: new Date(),
+      metadata: {
+        cached: response.cached === true,
+        model: response.model || target.modelId,
+        provider: target.providerId,
+        finishReason: response.finishReason,
+        promptTokens: response.usage?.promptTokens,
+        completionTokens: response.usage?.completionTokens,
+        totalTokens: response.usage?.totalTokens,
+        citations: response.citations,
+      }
+    };
+    const meta = response.metadata;
+    adoptComparison(run.prompt, answer, meta?.memoryToken || meta?.memoryChunks ? { token: meta.memoryToken, chunks: meta.memoryChunks } : undefined);
+    stopComparison();
+    setRun(null);
+    return target;
+  };
+
+  const dismissComparison = () => {
+    stopComparison();
+    setRun(null);
+  };
+
+  // A comparison belongs to the conversation it was started in
+  useEffect(() => {
+    stopComparison();
+    setRun(null);
+  }, [sessionId, stopComparison]);
+
+  // Abort in-flight comparisons on unmount
+  useEffect(() => stopComparison, [stopComparison]);
+
+  return (
+    <CompareContext.Provider
+      value={{
+        compareEnabled,
+        setCompareEnabled,
+        targets,
+        setTargets,
+        run,
+        isComparing: !!run && run.results.some(r => r.status === 'pending'),
+        runComparison,
+        stopComparison,
+        pickWinner,
+        dismissComparison,
+      }}
+    >
+      {children}
+    </CompareContext.Provider>
+  );
+};
@@ -1,5 +1,6 @@
 import { createContext, useContext, useState, useEffect, useRef, useCallback } from 'react';
 import type { ReactNode } from 'react';
+import { applyTheme, watchSystemTheme, type ThemeMode } from '../utils/theme';
 
 interface ChatSettings {
   displayMessageModel: boolean;
@@ -11,6 +12,9 @@ interface ChatSettings {
   systemPrompt: string;
   characterPrompt: string;
   unloadAfterCall: boolean;
+  theme: ThemeMode;
+  // Custom accent as #rrggbb, empty for the default blue
+  accentColor: string;
 }
 
 interface SettingsContextType {
@@ -32,6 +36,8 @@ const defaultSettings: ChatSettings = {
   systemPrompt: '',
   characterPrompt: '',
   unloadAfterCall: true,
+  theme: 'system',
+  accentColor: '',
 };
 
 const SettingsContext = createContext<SettingsContextType | undefined>(undefined);
@@ -74,6 +80,13 @@ export const SettingsProvider = ({ children }: { children: ReactNode }) => {
     }
   }, [settings, isInitialized]);
 
+  // Apply the theme, following OS changes while in system mode
+  useEffect(() => {
+    applyTheme(settings.theme, settings.accentColor);
+    if (settings.theme !== 'system') return;
+    return watchSystemTheme(() => applyTheme(settings.theme, settings.accentColor));
+  }, [settings.theme, settings.accentColor]);
+
   const updateSettings = (newSettings: Partial<ChatSettings>) => {
     setSettings(prev => ({ ...prev, ...newSettings }));
   };
@@ -0,0 +1,51 @@
+import { createContext, useContext } from 'react';
+import type { ChatResponse } from '../api/FastAPIClient';
+
+// Comparison types, limits and the useCompare hook. CompareProvider lives in
+// CompareContext.tsx so that module only exports a component.
+
+export const MIN_COMPARE_TARGETS = 2;
+export const MAX_COMPARE_TARGETS = 4;
+
+export interface CompareTarget {
+  providerId: string;
+  modelId: string;
+}
+
+export interface ComparisonResult {
+  target: CompareTarget;
+  status: 'pending' | 'done' | 'error' | 'cancelled';
+  response?: ChatResponse;
+  error?: string;
+  latencyMs?: number;
+}
+
+export interface ComparisonRun {
+  id: string;
+  prompt: string;
+  results: ComparisonResult[];
+}
+
+export interface CompareContextType {
+  compareEnabled: boolean;
+  setCompareEnabled: (enabled: boolean) => void;
+  targets: CompareTarget[];
+  setTargets: (targets: CompareTarget[]) => void;
+  run: ComparisonRun | null;
+  isComparing: boolean;
+  runComparison: (prompt: string) => void;
+  stopComparison: () => void;
+  // Continue the conversation with one answer; returns its provider/model so the caller can select it
+  pickWinner: (index: number) => CompareTarget | null;
+  dismissComparison: () => void;
+}
+
+export const CompareContext = createContext<CompareContextType | undefined>(undefined);
+
+export const useCompare = () => {
+  const context = useContext(CompareContext);
+  if (!context) {
+    throw new Error('useCompare must be used within a CompareProvider');
+  }
+  return context;
+};
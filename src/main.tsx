@@ -5,12 +5,15 @@ import App from './App.tsx'
 
 import { AppProvider } from "./context/AppContext";
 import { SettingsProvider } from "./context/SettingsContext";
+import { CompareProvider } from "./context/CompareContext";
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
     <SettingsProvider>
       <AppProvider>
-        <App />
+        <CompareProvider>
+          <App />
+        </CompareProvider>
       </AppProvider>
     </SettingsProvider>
   </StrictMode>,
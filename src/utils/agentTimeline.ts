@@ -0,0 +1,74 @@
+// Per-answer record of the agent's `agent` SSE events, kept on the assistant
+// message so slow responses can be broken down by stage afterwards.
+
+export type AgentStage = 'request' | 'retrieval' | 'memory' | 'provider' | 'stream' | 'fallback' | 'agent';
+
+export interface AgentTimelineEvent {
+  stage: AgentStage | string;
+  message: string;
+  // Epoch milliseconds
+  at: number;
+}
+
+export interface AgentTimeline {
+  startedAt: number;
+  completedAt?: number;
+  events: AgentTimelineEvent[];
+}
+
+export interface AgentTimelineSpan extends AgentTimelineEvent {
+  // Milliseconds since the request started
+  offsetMs: number;
+  // Time until the next event (or completion); undefined while still running
+  durationMs?: number;
+}
+
+/**
+ * Stage of an `agent` event: the backend's `stage` field when present, otherwise
+ * guessed from the status text ("Retrieving documents", "Recalling memory", ...)
+ */
+export const stageFromAgentEvent = (data: { stage?: unknown; message?: unknown } | undefined): string => {
+  if (data && typeof data.stage === 'string' && data.stage) return data.stage;
+  const text = typeof data?.message === 'string' ? data.message.toLowerCase() : '';
+  if (/retriev|rag|document|search|context/.test(text)) return 'retrieval';
+  if (/memor|recall/.test(text)) return 'memory';
+  if (/provider|model|generat|call|llm|thinking/.test(text)) return 'provider';
+  return 'agent';
+};
+
+export const createTimeline = (): AgentTimeline => ({
+  startedAt: Date.now(),
+  events: [{ stage: 'request', message: 'Request sent', at: Date.now() }],
+});
+
+/**
+ * Append an event, ignoring repeats of the latest status
+ */
+export const recordTimelineEvent = (timeline: AgentTimeline, stage: string, message: string) => {
+  const last = timeline.events[timeline.events.length - 1];
+  if (last && last.stage === stage && last.message === message) return;
+  timeline.events.push({ stage, message, at: Date.now() });
+};
+
+// Snapshot for attaching to a message; the live timeline keeps mutating until the request ends
+export const completeTimeline = (timeline: AgentTimeline): AgentTimeline => ({
+  ...timeline,
+  completedAt: timeline.completedAt ?? Date.now(),
+  events: [...timeline.events],
+});
+
+export const getTimelineSpans = (timeline: AgentTimeline): AgentTimelineSpan[] =>
+  timeline.events.map((event, index) => {
+    const end = timeline.events[index + 1]?.at ?? timeline.completedAt;
+    return {
+      ...event,
+      offsetMs: event.at - timeline.startedAt,
+      durationMs: end !== undefined ? Math.max(0, end - event.at) : undefined,
+    };
+  });
+
+export const getTimelineDuration = (timeline: AgentTimeline): number | undefined =>
+  timeline.completedAt !== undefined ? timeline.completedAt - timeline.startedAt : undefined;
+
+export const formatDuration = (ms: number): string =>
+  ms < 1000 ? `${Math.round(ms)}ms` : `${(ms / 1000).toFixed(ms < 10000 ? 2 : 1)}s`;
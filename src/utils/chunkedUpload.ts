@@ -0,0 +1,96 @@
+import {
+  createChunkedUpload,
+  getChunkedUpload,
+  uploadChunk,
+  completeChunkedUpload,
+  type ChunkedUploadSession,
+  type UploadResult,
+} from '../api/RagClient';
+import { toApiError, RequestCancelledError } from '../api/httpClient';
+
+// Resumable upload of one file in fixed-size chunks. The upload id is kept in
+// localStorage by content hash, so a paused, failed or reloaded upload picks up
+// from the chunks the server already has.
+
+export const DEFAULT_CHUNK_SIZE = 2 * 1024 * 1024;
+const MAX_CHUNK_RETRIES = 3;
+
+const resumeKey = (sessionId: string | undefined, contentHash: string) => `ragUpload:${sessionId ?? ''}:${contentHash}`;
+
+interface ChunkedUploadOptions {
+  sessionId?: string;
+  contentHash: string;
+  signal?: AbortSignal;
+  // Percent of the file's bytes the server has received
+  onProgress?: (percent: number) => void;
+  chunkSize?: number;
+}
+
+const delay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const timer = window.setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(new RequestCancelledError());
+  }, { once: true });
+});
+
+const openSession = async (file: File, options: ChunkedUploadOptions): Promise<ChunkedUploadSession> => {
+  const key = resumeKey(options.sessionId, options.contentHash);
+  const savedId = localStorage.getItem(key);
+  if (savedId) {
+    try {
+      return await getChunkedUpload(savedId);
+    } catch (error) {
+      // Expired or unknown on the server: start over
+      if (toApiError(error).status !== 404) throw error;
+      localStorage.removeItem(key);
+    }
+  }
+  const session = await createChunkedUpload({
+    fileName: file.name,
+    size: file.size,
+    chunkSize: options.chunkSize ?? DEFAULT_CHUNK_SIZE,
+    contentHash: options.contentHash,
+    sessionId: options.sessionId,
+  });
+  localStorage.setItem(key, session.uploadId);
+  return session;
+};
+
+export const uploadFileInChunks = async (file: File, options: ChunkedUploadOptions): Promise<UploadResult> => {
+  const session = await openSession(file, options);
+  const { uploadId, chunkSize } = session;
+  const chunkCount = Math.max(1, Math.ceil(file.size / chunkSize));
+  const received = new Set(session.receivedChunks);
+  const chunkBytes = (index: number) => Math.min(chunkSize, file.size - index * chunkSize);
+
+  let confirmedBytes = Array.from(received).reduce((sum, index) => sum + chunkBytes(index), 0);
+  const report = (inFlight = 0) => {
+    if (file.size === 0) return;
+    options.onProgress?.(Math.min(100, Math.round(((confirmedBytes + inFlight) * 100) / file.size)));
+  };
+  report();
+
+  for (let index = 0; index < chunkCount; index++) {
+    if (received.has(index)) continue;
+    const chunk = file.slice(index * chunkSize, index * chunkSize + chunkSize);
+    for (let attempt = 0; ; attempt++) {
+      try {
+        await uploadChunk(uploadId, index, chunk, { signal: options.signal, onProgress: report });
+        break;
+      } catch (error) {
+        const apiError = toApiError(error);
+        // Pauses abort the request; they must not be retried
+        if (apiError.isCancelled || attempt >= MAX_CHUNK_RETRIES) throw apiError;
+        await delay(500 * 2 ** attempt, options.signal);
+      }
+    }
+    confirmedBytes += chunkBytes(index);
+    report();
+  }
+
+  const result = await completeChunkedUpload(uploadId);
+  localStorage.removeItem(resumeKey(options.sessionId, options.contentHash));
+  options.onProgress?.(100);
+  return result;
+};
@@ -0,0 +1,100 @@
+import { getApiBaseUrlOverride, getDefaultApiBaseUrl, setApiBaseUrlOverride } from '../api/httpClient';
+import { generateId } from './conversationStore';
+
+// Named backend endpoints the user can switch between without rebuilding.
+// The active profile is applied through the API base URL override.
+
+const PROFILES_KEY = 'connectionProfiles';
+const ACTIVE_PROFILE_KEY = 'activeConnectionProfileId';
+
+// Pseudo-profile for the build-time backend (VITE_API_BASE or <hostname>:8080)
+export const DEFAULT_PROFILE_ID = 'default';
+
+export interface ConnectionProfile {
+  id: string;
+  name: string;
+  baseUrl: string;
+}
+
+export const getDefaultProfile = (): ConnectionProfile => ({
+  id: DEFAULT_PROFILE_ID,
+  name: 'Default',
+  baseUrl: getDefaultApiBaseUrl(),
+});
+
+export const normalizeBaseUrl = (url: string): string => url.trim().replace(/\/+$/, '');
+
+export const isValidBaseUrl = (url: string): boolean => {
+  try {
+    const parsed = new URL(normalizeBaseUrl(url));
+    return parsed.protocol === 'http:' || parsed.protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Saved profiles, not including the default one
+ */
+export const loadProfiles = (): ConnectionProfile[] => {
+  try {
+    const raw = localStorage.getItem(PROFILES_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed.filter(p => p && typeof p.id === 'string' && typeof p.baseUrl === 'string') : [];
+  } catch {
+    return [];
+  }
+};
+
+const saveProfiles = (profiles: ConnectionProfile[]) => {
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+};
+
+export const addProfile = (name: string, baseUrl: string): ConnectionProfile[] => {
+  const profile = { id: generateId(), name: name.trim() || normalizeBaseUrl(baseUrl), baseUrl: normalizeBaseUrl(baseUrl) };
+  const profiles = [...loadProfiles(), profile];
+  saveProfiles(profiles);
+  return profiles;
+};
+
+export const updateProfile = (id: string, changes: Partial<Omit<ConnectionProfile, 'id'>>): ConnectionProfile[] => {
+  const profiles = loadProfiles().map(p => p.id === id
+    ? { ...p, ...changes, baseUrl: normalizeBaseUrl(changes.baseUrl ?? p.baseUrl) }
+    : p);
+  saveProfiles(profiles);
+  // Keep the override in sync when the active profile's URL is edited
+  if (getActiveProfileId() === id) {
+    const active = profiles.find(p => p.id === id);
+    if (active) setApiBaseUrlOverride(active.baseUrl);
+  }
+  return profiles;
+};
+
+export const removeProfile = (id: string): ConnectionProfile[] => {
+  const profiles = loadProfiles().filter(p => p.id !== id);
+  saveProfiles(profiles);
+  if (getActiveProfileId() === id) activateProfile(DEFAULT_PROFILE_ID);
+  return profiles;
+};
+
+export const getActiveProfileId = (): string => {
+  const id = localStorage.getItem(ACTIVE_PROFILE_KEY);
+  if (id && id !== DEFAULT_PROFILE_ID && loadProfiles().some(p => p.id === id)) return id;
+  // An override set without a profile (older builds) still counts as custom
+  return getApiBaseUrlOverride() ? '' : DEFAULT_PROFILE_ID;
+};
+
+/**
+ * Point the API client at a profile. Callers reload the app afterwards so sessions,
+ * model status streams and provider lists are re-created against the new backend.
+ */
+export const activateProfile = (id: string) => {
+  const profile = loadProfiles().find(p => p.id === id);
+  if (profile) {
+    localStorage.setItem(ACTIVE_PROFILE_KEY, profile.id);
+    setApiBaseUrlOverride(profile.baseUrl);
+  } else {
+    localStorage.setItem(ACTIVE_PROFILE_KEY, DEFAULT_PROFILE_ID);
+    setApiBaseUrlOverride(null);
+  }
+};
@@ -0,0 +1,75 @@
+import type { Message } from '../context/AppContext';
+import type { MessageTree } from './messageTree';
+import { getAll, getOne, putOne, deleteOne } from './indexedDb';
+
+const STORE = 'conversations';
+const ACTIVE_KEY = 'activeConversationId';
+
+export const DEFAULT_CONVERSATION_TITLE = 'New conversation';
+
+export interface Conversation {
+  id: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  sessionId: string;
+  providerId?: string;
+  modelId?: string;
+  // Active branch, kept alongside the tree for summaries and older readers
+  messages: Message[];
+  // All branches created by edits and regenerations
+  tree?: MessageTree;
+}
+
+export type ConversationSummary = Omit<Conversation, 'messages' | 'tree'> & { messageCount: number };
+
+export const generateId = (): string => {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return Math.random().toString(36).slice(2) + Date.now().toString(36);
+};
+
+export const toSummary = (conversation: Conversation): ConversationSummary => {
+  const { id, title, createdAt, updatedAt, sessionId, providerId, modelId } = conversation;
+  return { id, title, createdAt, updatedAt, sessionId, providerId, modelId, messageCount: conversation.messages.length };
+};
+
+/**
+ * Derive a short title from the first user message of a conversation
+ */
+export const deriveTitle = (messages: Message[]): string => {
+  const firstUser = messages.find(m => m.role === 'user');
+  if (!firstUser) return DEFAULT_CONVERSATION_TITLE;
+  const text = firstUser.content.replace(/\s+/g, ' ').trim();
+  return text.length > 40 ? `${text.substring(0, 40)}...` : text || DEFAULT_CONVERSATION_TITLE;
+};
+
+export const listConversations = async (): Promise<ConversationSummary[]> => {
+  const all = await getAll<Conversation>(STORE);
+  return all.map(toSummary).sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const loadConversation = (id: string): Promise<Conversation | undefined> => getOne<Conversation>(STORE, id);
+
+export const saveConversation = (conversation: Conversation): Promise<void> => putOne(STORE, conversation);
+
+export const deleteConversation = (id: string): Promise<void> => deleteOne(STORE, id);
+
+export const createConversation = (sessionId: string, providerId?: string, modelId?: string): Conversation => {
+  const now = Date.now();
+  return {
+    id: generateId(),
+    title: DEFAULT_CONVERSATION_TITLE,
+    createdAt: now,
+    updatedAt: now,
+    sessionId,
+    providerId,
+    modelId,
+    messages: [],
+  };
+};
+
+export const getActiveConversationId = (): string | null => localStorage.getItem(ACTIVE_KEY);
+
+export const setActiveConversationId = (id: string) => localStorage.setItem(ACTIVE_KEY, id);
@@ -0,0 +1,134 @@
+// Passphrase encryption for exported memory files. The envelope
+// is plain JSON with a format tag so imports can detect it and ask for the passphrase.
+
+export const ENCRYPTED_EXPORT_FORMAT = 'reactagent-encrypted/v1';
+
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+const PBKDF2_ITERATIONS = 600000;
+// Iterations come from the imported file, so cap them to keep a crafted file from freezing the tab
+const MAX_PBKDF2_ITERATIONS = 5000000;
+
+export interface EncryptedExport {
+  format: typeof ENCRYPTED_EXPORT_FORMAT;
+  kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; salt: string };
+  cipher: { name: 'AES-GCM'; iv: string };
+  // Base64 ciphertext of the UTF-8 JSON payload
+  data: string;
+}
+
+export class DecryptionError extends Error {
+  constructor(message = 'Wrong passphrase or corrupted file') {
+    super(message);
+    this.name = 'DecryptionError';
+  }
+}
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  // Chunked to stay under the argument limit of String.fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (value: string): Uint8Array<ArrayBuffer> => {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+const deriveKey = async (passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+export const isEncryptedExport = (value: unknown): value is EncryptedExport =>
+  typeof value === 'object' && value !== null && (value as { format?: unknown }).format === ENCRYPTED_EXPORT_FORMAT;
+
+export const encryptJson = async (value: unknown, passphrase: string): Promise<EncryptedExport> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(JSON.stringify(value)));
+  return {
+    format: ENCRYPTED_EXPORT_FORMAT,
+    kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: PBKDF2_ITERATIONS, salt: toBase64(salt) },
+    cipher: { name: 'AES-GCM', iv: toBase64(iv) },
+    data: toBase64(new Uint8Array(ciphertext)),
+  };
+};
+
+const isValidEnvelope = (envelope: EncryptedExport): boolean => {
+  const { kdf, cipher, data } = envelope as Partial<EncryptedExport>;
+  return kdf?.name === 'PBKDF2'
+    && kdf.hash === 'SHA-256'
+    && Number.isInteger(kdf.iterations)
+    && kdf.iterations > 0
+    && kdf.iterations <= MAX_PBKDF2_ITERATIONS
+    && typeof kdf.salt === 'string'
+    && cipher?.name === 'AES-GCM'
+    && typeof cipher.iv === 'string'
+    && typeof data === 'string';
+};
+
+/**
+ * Decrypt an envelope back to its JSON payload. AES-GCM authenticates the data,
+ * so a wrong passphrase and a tampered file both fail with DecryptionError.
+ */
+export const decryptJson = async (envelope: EncryptedExport, passphrase: string): Promise<unknown> => {
+  if (!isValidEnvelope(envelope)) {
+    throw new DecryptionError('Unsupported or corrupted encrypted file');
+  }
+  let plaintext: ArrayBuffer;
+  try {
+    const key = await deriveKey(passphrase, fromBase64(envelope.kdf.salt), envelope.kdf.iterations);
+    plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(envelope.cipher.iv) }, key, fromBase64(envelope.data));
+  } catch {
+    throw new DecryptionError();
+  }
+  return JSON.parse(new TextDecoder().decode(plaintext));
+};
+
+// Passphrase choice made in an export form
+export interface ExportEncryption {
+  enabled: boolean;
+  passphrase: string;
+  confirm: string;
+}
+
+export const DEFAULT_EXPORT_ENCRYPTION: ExportEncryption = { enabled: false, passphrase: '', confirm: '' };
+
+// Why the passphrase can't be used yet, or null when the export can proceed
+export const getEncryptionProblem = (encryption: ExportEncryption): string | null => {
+  if (!encryption.enabled) return null;
+  if (encryption.passphrase.length < MIN_PASSPHRASE_LENGTH) return `Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`;
+  if (encryption.passphrase !== encryption.confirm) return 'Passphrases do not match';
+  return null;
+};
+
+/**
+ * Download `value` as a JSON file, encrypted when the passphrase option is enabled
+ */
+export const downloadExport = async (value: unknown, baseName: string, encryption: ExportEncryption) => {
+  const payload = encryption.enabled ? await encryptJson(value, encryption.passphrase) : value;
+  const fileName = encryption.enabled ? `${baseName}.encrypted.json` : `${baseName}.json`;
+
+  const blob = new Blob([JSON.stringify(payload, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
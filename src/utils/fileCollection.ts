@@ -0,0 +1,77 @@
+import { unzip } from 'fflate';
+
+// Turns dropped folders and .zip archives into a flat list of files for the RAG upload queue.
+
+export interface CollectedFile {
+  file: File;
+  // Path relative to the dropped folder or archive, used as the source name
+  path: string;
+}
+
+export const isZipFile = (file: File): boolean =>
+  file.name.toLowerCase().endsWith('.zip') || file.type === 'application/zip' || file.type === 'application/x-zip-compressed';
+
+const readAllEntries = async (reader: FileSystemDirectoryReader): Promise<FileSystemEntry[]> => {
+  const entries: FileSystemEntry[] = [];
+  // readEntries returns results in batches until it yields an empty one
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (!batch.length) return entries;
+    entries.push(...batch);
+  }
+};
+
+const collectEntry = async (entry: FileSystemEntry): Promise<CollectedFile[]> => {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+    return [{ file, path: entry.fullPath.replace(/^\//, '') || file.name }];
+  }
+  if (entry.isDirectory) {
+    const children = await readAllEntries((entry as FileSystemDirectoryEntry).createReader());
+    const nested = await Promise.all(children.map(collectEntry));
+    return nested.flat();
+  }
+  return [];
+};
+
+/**
+ * Files from a drop event, walking into dropped directories.
+ * Must be called synchronously from the drop handler: DataTransfer items expire after it returns.
+ */
+export const collectFromDataTransfer = (dataTransfer: DataTransfer): Promise<CollectedFile[]> => {
+  const entries = Array.from(dataTransfer.items)
+    .map(item => (item.kind === 'file' ? item.webkitGetAsEntry?.() : null))
+    .filter((entry): entry is FileSystemEntry => !!entry);
+  if (!entries.length) {
+    return Promise.resolve(Array.from(dataTransfer.files).map(file => ({ file, path: file.name })));
+  }
+  return Promise.all(entries.map(collectEntry)).then(nested => nested.flat());
+};
+
+/**
+ * Files from an <input type="file">, keeping folder-relative paths for directory picks
+ */
+export const collectFromFileList = (fileList: FileList): CollectedFile[] =>
+  Array.from(fileList).map(file => ({ file, path: file.webkitRelativePath || file.name }));
+
+const unzipAsync = (data: Uint8Array) => new Promise<Record<string, Uint8Array>>((resolve, reject) => {
+  unzip(data, (error, result) => (error ? reject(error) : resolve(result)));
+});
+
+/**
+ * Replace .zip archives with the files they contain. Directory entries and macOS
+ * resource forks are dropped; nested archives are not expanded.
+ */
+export const expandArchives = async (files: CollectedFile[]): Promise<CollectedFile[]> => {
+  const expanded = await Promise.all(files.map(async (item) => {
+    if (!isZipFile(item.file)) return [item];
+    const contents = await unzipAsync(new Uint8Array(await item.file.arrayBuffer()));
+    return Object.entries(contents)
+      .filter(([name]) => !name.endsWith('/') && !name.startsWith('__MACOSX/') && !/(^|\/)\.DS_Store$/.test(name))
+      .map(([name, data]) => {
+        const path = `${item.path}/${name}`;
+        return { file: new File([data], path, { lastModified: item.file.lastModified }), path };
+      });
+  }));
+  return expanded.flat();
+};
@@ -0,0 +1,26 @@
+/**
+ * Score how well `query` matches `text` as a case-insensitive subsequence.
+ * Returns null when it doesn't match; higher scores are better matches.
+ * Consecutive characters and matches at word starts score higher.
+ */
+export const fuzzyScore = (query: string, text: string): number | null => {
+  const q = query.trim().toLowerCase();
+  if (!q) return 0;
+  const t = text.toLowerCase();
+
+  let score = 0;
+  let ti = 0;
+  let previous = -2;
+  for (const ch of q) {
+    if (ch === ' ') continue;
+    const index = t.indexOf(ch, ti);
+    if (index === -1) return null;
+    score += 1;
+    if (index === previous + 1) score += 2;
+    if (index === 0 || /[\s:/_-]/.test(t[index - 1])) score += 3;
+    previous = index;
+    ti = index + 1;
+  }
+  // Prefer shorter texts when scores tie
+  return score - t.length / 100;
+};
@@ -0,0 +1,81 @@
+// Thin promise wrapper around IndexedDB shared by the client-side stores.
+// Each store registers itself in STORES; bump DB_VERSION when adding one.
+
+const DB_NAME = 'agent-agent-ai';
+const DB_VERSION = 2;
+
+const STORES: Record<string, IDBObjectStoreParameters> = {
+  conversations: { keyPath: 'id' },
+  memorySnapshots: { keyPath: 'id' },
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this browser'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    let blocked = false;
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      Object.entries(STORES).forEach(([name, options]) => {
+        if (!db.objectStoreNames.contains(name)) {
+          db.createObjectStore(name, options);
+        }
+      });
+    };
+    // Another tab still holds an older version open and did not close it
+    request.onblocked = () => {
+      blocked = true;
+      reject(new Error('Saved conversations are locked by another tab running an older version. Close other tabs and reload.'));
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      if (blocked) {
+        // The caller already gave up; the next call opens a fresh connection
+        db.close();
+        return;
+      }
+      // Let a newer version in another tab upgrade instead of blocking it
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => reject(request.error);
+  });
+  // Allow a retry on the next call if opening failed
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const getAll = async <T>(storeName: string): Promise<T[]> => {
+  const db = await openDatabase();
+  return promisify(db.transaction(storeName, 'readonly').objectStore(storeName).getAll() as IDBRequest<T[]>);
+};
+
+export const getOne = async <T>(storeName: string, key: IDBValidKey): Promise<T | undefined> => {
+  const db = await openDatabase();
+  return promisify(db.transaction(storeName, 'readonly').objectStore(storeName).get(key) as IDBRequest<T | undefined>);
+};
+
+export const putOne = async <T>(storeName: string, value: T): Promise<void> => {
+  const db = await openDatabase();
+  await promisify(db.transaction(storeName, 'readwrite').objectStore(storeName).put(value));
+};
+
+export const deleteOne = async (storeName: string, key: IDBValidKey): Promise<void> => {
+  const db = await openDatabase();
+  await promisify(db.transaction(storeName, 'readwrite').objectStore(storeName).delete(key));
+};
@@ -0,0 +1,99 @@
+import type { KeyboardEvent as ReactKeyboardEvent } from 'react';
+
+// Customizable global keyboard shortcuts. Bindings are strings such as
+// "Mod+K" or "Alt+Shift+ArrowUp", where Mod is Cmd on macOS and Ctrl elsewhere.
+
+const SHORTCUTS_KEY = 'keyboardShortcuts';
+
+export type ShortcutActionId =
+  | 'openPalette'
+  | 'newConversation'
+  | 'previousConversation'
+  | 'nextConversation'
+  | 'toggleSidebar'
+  | 'focusComposer'
+  | 'retryLastMessage'
+  | 'stopGeneration';
+
+export interface ShortcutAction {
+  id: ShortcutActionId;
+  label: string;
+  defaultBinding: string;
+}
+
+export const SHORTCUT_ACTIONS: ShortcutAction[] = [
+  { id: 'openPalette', label: 'Open command palette', defaultBinding: 'Mod+K' },
+  { id: 'newConversation', label: 'New conversation', defaultBinding: 'Alt+N' },
+  { id: 'previousConversation', label: 'Previous conversation', defaultBinding: 'Alt+ArrowUp' },
+  { id: 'nextConversation', label: 'Next conversation', defaultBinding: 'Alt+ArrowDown' },
+  { id: 'toggleSidebar', label: 'Toggle sidebar', defaultBinding: 'Mod+B' },
+  { id: 'focusComposer', label: 'Focus message input', defaultBinding: 'Alt+I' },
+  { id: 'retryLastMessage', label: 'Retry last message', defaultBinding: 'Alt+R' },
+  { id: 'stopGeneration', label: 'Stop generating', defaultBinding: 'Alt+S' },
+];
+
+// Action id -> binding; an empty string disables the shortcut
+export type ShortcutMap = Record<ShortcutActionId, string>;
+
+export const DEFAULT_SHORTCUTS = Object.fromEntries(
+  SHORTCUT_ACTIONS.map(a => [a.id, a.defaultBinding])
+) as ShortcutMap;
+
+export const isMac = (): boolean => typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+
+const MODIFIER_KEYS = ['Control', 'Meta', 'Alt', 'Shift'];
+
+/**
+ * Binding for a key event, or null while only modifiers are held
+ */
+export const eventToBinding = (e: KeyboardEvent | ReactKeyboardEvent): string | null => {
+  if (MODIFIER_KEYS.includes(e.key)) return null;
+  const parts: string[] = [];
+  if (isMac() ? e.metaKey : e.ctrlKey) parts.push('Mod');
+  if (isMac() && e.ctrlKey) parts.push('Ctrl');
+  if (e.altKey) parts.push('Alt');
+  if (e.shiftKey) parts.push('Shift');
+  // `code` keeps Alt/Option combinations stable on macOS, where `key` becomes a symbol
+  const key = /^Key[A-Z]$/.test(e.code) ? e.code.slice(3)
+    : /^Digit\d$/.test(e.code) ? e.code.slice(5)
+    : e.key.length === 1 ? e.key.toUpperCase() : e.key;
+  parts.push(key);
+  return parts.join('+');
+};
+
+// Bindings without Mod/Ctrl/Alt would swallow normal typing
+export const hasModifier = (binding: string): boolean => /(^|\+)(Mod|Ctrl|Alt)\+/.test(binding);
+
+export const formatBinding = (binding: string): string => {
+  if (!binding) return '—';
+  const mac = isMac();
+  return binding.split('+').map(part => {
+    switch (part) {
+      case 'Mod': return mac ? '⌘' : 'Ctrl';
+      case 'Ctrl': return mac ? '⌃' : 'Ctrl';
+      case 'Alt': return mac ? '⌥' : 'Alt';
+      case 'Shift': return mac ? '⇧' : 'Shift';
+      case 'ArrowUp': return '↑';
+      case 'ArrowDown': return '↓';
+      case 'ArrowLeft': return '←';
+      case 'ArrowRight': return '→';
+      default: return part;
+    }
+  }).join(mac ? '' : '+');
+};
+
+export const loadShortcuts = (): ShortcutMap => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SHORTCUTS_KEY) || '{}');
+    return { ...DEFAULT_SHORTCUTS, ...saved };
+  } catch {
+    return DEFAULT_SHORTCUTS;
+  }
+};
+
+export const saveShortcuts = (shortcuts: ShortcutMap) => {
+  localStorage.setItem(SHORTCUTS_KEY, JSON.stringify(shortcuts));
+};
+
+export const findShortcutAction = (shortcuts: ShortcutMap, binding: string): ShortcutActionId | undefined =>
+  SHORTCUT_ACTIONS.find(a => shortcuts[a.id] === binding)?.id;
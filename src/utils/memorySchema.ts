@@ -0,0 +1,200 @@
+import type { SessionMemory } from '../api/FastAPIClient';
+
+// Client-side checks for memory import files. Older formats are migrated step by
+// step to the current version before validation, so the server only ever sees
+// `mem/v1` documents.
+
+export const MEMORY_FORMAT_VERSION = 'mem/v1';
+
+// Files written before `meta.version` existed
+const LEGACY_VERSION = 'mem/v0';
+
+const TURN_ROLES = ['user', 'assistant', 'system'];
+
+export interface MemoryValidationIssue {
+  severity: 'error' | 'warning';
+  // Location in the document, e.g. "items[3].text"
+  path: string;
+  message: string;
+}
+
+export interface MemoryImportPreview {
+  memory: SessionMemory;
+  // Version found in the file, before migration
+  sourceVersion: string;
+  migrated: boolean;
+  issues: MemoryValidationIssue[];
+}
+
+type RawRecord = Record<string, unknown>;
+
+interface MemoryMigration {
+  from: string;
+  to: string;
+  migrate: (raw: RawRecord) => RawRecord;
+}
+
+const isRecord = (value: unknown): value is RawRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const toIsoString = (value: unknown): unknown =>
+  typeof value === 'number' ? new Date(value).toISOString() : value;
+
+const MIGRATIONS: MemoryMigration[] = [
+  {
+    // v0 used `type`/`score` on items, `timestamp` on turns and epoch-millisecond dates
+    from: LEGACY_VERSION,
+    to: 'mem/v1',
+    migrate: (raw) => {
+      const turns = Array.isArray(raw.turns) ? raw.turns.map(turn => {
+        if (!isRecord(turn)) return turn;
+        const { timestamp, ...rest } = turn;
+        return { ...rest, ts: toIsoString(rest.ts ?? timestamp) };
+      }) : raw.turns;
+      const items = Array.isArray(raw.items) ? raw.items.map(item => {
+        if (!isRecord(item)) return item;
+        const { type, score, ...rest } = item;
+        return {
+          ...rest,
+          kind: rest.kind ?? type,
+          importance: rest.importance ?? score,
+          createdAt: toIsoString(rest.createdAt),
+          lastAccessedAt: toIsoString(rest.lastAccessedAt ?? rest.createdAt),
+        };
+      }) : raw.items;
+      const meta = isRecord(raw.meta) ? raw.meta : {};
+      return {
+        ...raw,
+        turns,
+        items,
+        meta: {
+          ...meta,
+          version: 'mem/v1',
+          turnCount: Array.isArray(turns) ? turns.length : 0,
+          tokenBytes: typeof meta.tokenBytes === 'number' ? meta.tokenBytes : 0,
+        },
+      };
+    },
+  },
+];
+
+const readVersion = (raw: RawRecord): string => {
+  const version = isRecord(raw.meta) ? raw.meta.version : undefined;
+  return typeof version === 'string' ? version : LEGACY_VERSION;
+};
+
+/**
+ * Run migrations until the document reaches the current format.
+ * Returns null when no migration path exists from its version.
+ */
+export const migrateMemory = (raw: RawRecord): RawRecord | null => {
+  let current = raw;
+  let version = readVersion(current);
+  while (version !== MEMORY_FORMAT_VERSION) {
+    const step = MIGRATIONS.find(m => m.from === version);
+    if (!step) return null;
+    current = step.migrate(current);
+    version = step.to;
+  }
+  return current;
+};
+
+const isDateString = (value: unknown) => typeof value === 'string' && !Number.isNaN(Date.parse(value));
+
+const validateTurns = (turns: unknown, issues: MemoryValidationIssue[]) => {
+  if (turns === undefined) return;
+  if (!Array.isArray(turns)) {
+    issues.push({ severity: 'error', path: 'turns', message: 'Must be an array' });
+    return;
+  }
+  turns.forEach((turn, i) => {
+    const path = `turns[${i}]`;
+    if (!isRecord(turn)) {
+      issues.push({ severity: 'error', path, message: 'Must be an object' });
+      return;
+    }
+    if (typeof turn.content !== 'string') issues.push({ severity: 'error', path: `${path}.content`, message: 'Must be a string' });
+    if (typeof turn.role !== 'string') {
+      issues.push({ severity: 'error', path: `${path}.role`, message: 'Must be a string' });
+    } else if (!TURN_ROLES.includes(turn.role)) {
+      issues.push({ severity: 'warning', path: `${path}.role`, message: `Unknown role "${turn.role}"` });
+    }
+    if (!isDateString(turn.ts)) issues.push({ severity: 'error', path: `${path}.ts`, message: 'Must be an ISO date string' });
+  });
+};
+
+const validateItems = (items: unknown, issues: MemoryValidationIssue[]) => {
+  if (items === undefined) return;
+  if (!Array.isArray(items)) {
+    issues.push({ severity: 'error', path: 'items', message: 'Must be an array' });
+    return;
+  }
+  const seen = new Set<string>();
+  items.forEach((item, i) => {
+    const path = `items[${i}]`;
+    if (!isRecord(item)) {
+      issues.push({ severity: 'error', path, message: 'Must be an object' });
+      return;
+    }
+    if (typeof item.id !== 'string' || !item.id) {
+      issues.push({ severity: 'error', path: `${path}.id`, message: 'Must be a non-empty string' });
+    } else if (seen.has(item.id)) {
+      issues.push({ severity: 'error', path: `${path}.id`, message: `Duplicate id "${item.id}"` });
+    } else {
+      seen.add(item.id);
+    }
+    if (typeof item.kind !== 'string') issues.push({ severity: 'error', path: `${path}.kind`, message: 'Must be a string' });
+    if (typeof item.text !== 'string') {
+      issues.push({ severity: 'error', path: `${path}.text`, message: 'Must be a string' });
+    } else if (!item.text.trim()) {
+      issues.push({ severity: 'warning', path: `${path}.text`, message: 'Empty text' });
+    }
+    if (typeof item.importance !== 'number' || !Number.isFinite(item.importance)) {
+      issues.push({ severity: 'error', path: `${path}.importance`, message: 'Must be a number' });
+    }
+    (['createdAt', 'lastAccessedAt'] as const).forEach(field => {
+      if (!isDateString(item[field])) issues.push({ severity: 'error', path: `${path}.${field}`, message: 'Must be an ISO date string' });
+    });
+  });
+};
+
+/**
+ * Migrate and validate a parsed import file. The memory can be imported when
+ * no issue has severity "error".
+ */
+export const prepareMemoryImport = (raw: unknown, sessionId?: string): MemoryImportPreview => {
+  const issues: MemoryValidationIssue[] = [];
+  if (!isRecord(raw)) {
+    issues.push({ severity: 'error', path: '', message: 'File must contain a JSON object' });
+    return { memory: {}, sourceVersion: 'unknown', migrated: false, issues };
+  }
+
+  const sourceVersion = readVersion(raw);
+  const migrated = migrateMemory(raw);
+  if (!migrated) {
+    issues.push({ severity: 'error', path: 'meta.version', message: `Unsupported memory format "${sourceVersion}"` });
+    return { memory: raw as SessionMemory, sourceVersion, migrated: false, issues };
+  }
+
+  validateTurns(migrated.turns, issues);
+  validateItems(migrated.items, issues);
+  if (migrated.summary !== undefined && typeof migrated.summary !== 'string') {
+    issues.push({ severity: 'error', path: 'summary', message: 'Must be a string' });
+  }
+  if (migrated.turns === undefined && migrated.items === undefined && !migrated.summary) {
+    issues.push({ severity: 'warning', path: '', message: 'File contains no turns, items or summary' });
+  }
+  if (sessionId && typeof migrated.sessionId === 'string' && migrated.sessionId !== sessionId) {
+    issues.push({ severity: 'warning', path: 'sessionId', message: 'Exported from a different session' });
+  }
+
+  return {
+    memory: migrated as SessionMemory,
+    sourceVersion,
+    migrated: sourceVersion !== MEMORY_FORMAT_VERSION,
+    issues,
+  };
+};
+
+export const hasBlockingIssues = (preview: MemoryImportPreview): boolean =>
+  preview.issues.some(issue => issue.severity === 'error');
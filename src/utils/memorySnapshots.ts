@@ -0,0 +1,112 @@
+import { exportSessionMemory, importSessionMemory, type MemoryImportResult, type MemoryItem, type SessionMemory } from '../api/FastAPIClient';
+import { getAll, putOne, deleteOne } from './indexedDb';
+import { generateId } from './conversationStore';
+import { readStoredMemory } from './sessionMemory';
+
+// Local copies of a session's exported memory, taken before destructive actions
+// and on demand, so clears, imports and edits can be rolled back.
+
+const STORE = 'memorySnapshots';
+// Oldest snapshots beyond this are pruned per session
+const MAX_SNAPSHOTS_PER_SESSION = 25;
+
+export type SnapshotReason = 'manual' | 'clear-long' | 'clear-all' | 'import' | 'edit' | 'restore';
+
+export const SNAPSHOT_REASON_LABELS: Record<SnapshotReason, string> = {
+  manual: 'Manual snapshot',
+  'clear-long': 'Before clearing long-term memory',
+  'clear-all': 'Before clearing all memory',
+  import: 'Before import',
+  edit: 'Before editing',
+  restore: 'Before restoring a snapshot',
+};
+
+export interface MemorySnapshot {
+  id: string;
+  sessionId: string;
+  createdAt: number;
+  reason: SnapshotReason;
+  memory: SessionMemory;
+}
+
+export const listSnapshots = async (sessionId: string): Promise<MemorySnapshot[]> => {
+  const all = await getAll<MemorySnapshot>(STORE);
+  return all.filter(s => s.sessionId === sessionId).sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const deleteSnapshot = (id: string): Promise<void> => deleteOne(STORE, id);
+
+/**
+ * Export the session's current memory and store it as a snapshot
+ */
+export const takeSnapshot = async (sessionId: string, reason: SnapshotReason): Promise<MemorySnapshot> => {
+  const stored = readStoredMemory(sessionId);
+  const memory = await exportSessionMemory(sessionId, stored?.token, stored?.chunks);
+  const snapshot: MemorySnapshot = { id: generateId(), sessionId, createdAt: Date.now(), reason, memory };
+  await putOne(STORE, snapshot);
+
+  const existing = await listSnapshots(sessionId);
+  await Promise.all(existing.slice(MAX_SNAPSHOTS_PER_SESSION).map(s => deleteSnapshot(s.id)));
+  return snapshot;
+};
+
+/**
+ * Import a snapshot's memory back into its session, snapshotting the current state first
+ */
+export const restoreSnapshot = async (snapshot: MemorySnapshot): Promise<MemoryImportResult> => {
+  await takeSnapshot(snapshot.sessionId, 'restore');
+  return importSessionMemory({ ...snapshot.memory, sessionId: snapshot.sessionId });
+};
+
+type MemoryTurn = NonNullable<SessionMemory['turns']>[number];
+
+export interface MemoryDiff {
+  items: {
+    added: MemoryItem[];
+    removed: MemoryItem[];
+    changed: Array<{ before: MemoryItem; after: MemoryItem; fields: Array<'text' | 'kind' | 'importance'> }>;
+  };
+  turns: { added: MemoryTurn[]; removed: MemoryTurn[] };
+  summary: { before: string; after: string } | null;
+}
+
+const turnKey = (turn: MemoryTurn) => `${turn.ts}\u0000${turn.role}\u0000${turn.content}`;
+
+/**
+ * Differences going from memory `a` (older) to `b` (newer). Items are matched by id,
+ * turns by timestamp, role and content.
+ */
+export const diffMemory = (a: SessionMemory, b: SessionMemory): MemoryDiff => {
+  const beforeItems = new Map((a.items ?? []).map(item => [item.id, item]));
+  const afterItems = new Map((b.items ?? []).map(item => [item.id, item]));
+
+  const changed: MemoryDiff['items']['changed'] = [];
+  afterItems.forEach((after, id) => {
+    const before = beforeItems.get(id);
+    if (!before) return;
+    const fields = (['text', 'kind', 'importance'] as const).filter(field => before[field] !== after[field]);
+    if (fields.length) changed.push({ before, after, fields });
+  });
+
+  const beforeTurns = new Set((a.turns ?? []).map(turnKey));
+  const afterTurns = new Set((b.turns ?? []).map(turnKey));
+  const summaryBefore = a.summary ?? '';
+  const summaryAfter = b.summary ?? '';
+
+  return {
+    items: {
+      added: [...afterItems.values()].filter(item => !beforeItems.has(item.id)),
+      removed: [...beforeItems.values()].filter(item => !afterItems.has(item.id)),
+      changed,
+    },
+    turns: {
+      added: (b.turns ?? []).filter(turn => !beforeTurns.has(turnKey(turn))),
+      removed: (a.turns ?? []).filter(turn => !afterTurns.has(turnKey(turn))),
+    },
+    summary: summaryBefore !== summaryAfter ? { before: summaryBefore, after: summaryAfter } : null,
+  };
+};
+
+export const isEmptyDiff = (diff: MemoryDiff): boolean =>
+  !diff.items.added.length && !diff.items.removed.length && !diff.items.changed.length
+  && !diff.turns.added.length && !diff.turns.removed.length && !diff.summary;
@@ -0,0 +1,106 @@
+import type { Message } from '../context/AppContext';
+
+// Conversation history stored as a tree so edits and regenerations fork
+// new branches instead of overwriting earlier turns. The chat always shows
+// one branch: the path from a root to `activeLeafId`.
+
+export interface MessageTreeNode {
+  message: Message;
+  parentId: string | null;
+  children: string[];
+  // Child to follow when this node is re-selected through a sibling switch
+  activeChild?: string;
+}
+
+export interface MessageTree {
+  nodes: Record<string, MessageTreeNode>;
+  roots: string[];
+  activeLeafId: string | null;
+}
+
+export const createEmptyTree = (): MessageTree => ({ nodes: {}, roots: [], activeLeafId: null });
+
+/**
+ * Walk from the active leaf up to its root and return the messages in display order
+ */
+export const getActivePath = (tree: MessageTree): Message[] => {
+  const path: Message[] = [];
+  let id = tree.activeLeafId;
+  while (id && tree.nodes[id]) {
+    path.unshift(tree.nodes[id].message);
+    id = tree.nodes[id].parentId;
+  }
+  return path;
+};
+
+/**
+ * Merge the displayed branch into the tree. Unknown messages become new children of
+ * the previous message, known ones have their content refreshed. Returns the same
+ * tree instance when nothing changed so callers can skip persistence.
+ */
+export const syncActivePath = (tree: MessageTree, path: Message[]): MessageTree => {
+  let changed = false;
+  const nodes = { ...tree.nodes };
+  let roots = tree.roots;
+
+  path.forEach((message, index) => {
+    const parentId = index === 0 ? null : path[index - 1].id;
+    const existing = nodes[message.id];
+    if (existing) {
+      if (existing.message !== message) {
+        nodes[message.id] = { ...existing, message };
+        changed = true;
+      }
+    } else {
+      nodes[message.id] = { message, parentId, children: [] };
+      if (parentId) {
+        nodes[parentId] = { ...nodes[parentId], children: [...nodes[parentId].children, message.id] };
+      } else {
+        roots = [...roots, message.id];
+      }
+      changed = true;
+    }
+    if (parentId && nodes[parentId].activeChild !== message.id) {
+      nodes[parentId] = { ...nodes[parentId], activeChild: message.id };
+      changed = true;
+    }
+  });
+
+  const activeLeafId = path.length ? path[path.length - 1].id : null;
+  if (!changed && activeLeafId === tree.activeLeafId) return tree;
+  return { nodes, roots, activeLeafId };
+};
+
+export const buildTreeFromMessages = (messages: Message[]): MessageTree =>
+  syncActivePath(createEmptyTree(), messages);
+
+/**
+ * Sibling versions of a message that share its parent and role
+ */
+export const getSiblingIds = (tree: MessageTree, messageId: string): string[] => {
+  const node = tree.nodes[messageId];
+  if (!node) return [];
+  const candidates = node.parentId ? tree.nodes[node.parentId]?.children ?? [] : tree.roots;
+  return candidates.filter(id => tree.nodes[id]?.message.role === node.message.role);
+};
+
+/**
+ * Make the branch through `messageId` active, continuing down the most recently
+ * viewed children to a leaf
+ */
+export const selectBranch = (tree: MessageTree, messageId: string): MessageTree => {
+  if (!tree.nodes[messageId]) return tree;
+  let leaf = messageId;
+  for (;;) {
+    const node = tree.nodes[leaf];
+    const next = node.activeChild ?? node.children[node.children.length - 1];
+    if (!next || !tree.nodes[next]) break;
+    leaf = next;
+  }
+  const nodes = { ...tree.nodes };
+  const parentId = nodes[messageId].parentId;
+  if (parentId) {
+    nodes[parentId] = { ...nodes[parentId], activeChild: messageId };
+  }
+  return { ...tree, nodes, activeLeafId: leaf };
+};
@@ -0,0 +1,124 @@
+import { generateId } from './conversationStore';
+
+// Saved character prompts the user can switch between. Activating a persona
+// copies its prompt into the Character Prompt setting and applies its defaults.
+
+const PERSONAS_KEY = 'personas';
+const ACTIVE_PERSONA_KEY = 'activePersonaId';
+
+export const PERSONA_EXPORT_FORMAT = 'reactagent-personas/v1';
+
+export interface Persona {
+  id: string;
+  name: string;
+  description: string;
+  // Emoji or image URL
+  avatar: string;
+  characterPrompt: string;
+  temperature?: number;
+  // Model switched to when the persona is activated
+  providerId?: string;
+  modelId?: string;
+}
+
+export type PersonaDraft = Omit<Persona, 'id'>;
+
+export const EMPTY_PERSONA: PersonaDraft = { name: '', description: '', avatar: '🙂', characterPrompt: '' };
+
+export const isImageAvatar = (avatar: string): boolean => /^(https?:|data:image\/)/.test(avatar);
+
+const isPersona = (value: unknown): value is Persona => {
+  const p = value as Partial<Persona> | null;
+  return !!p && typeof p.name === 'string' && typeof p.characterPrompt === 'string';
+};
+
+// Fill optional fields and drop anything that isn't part of a persona
+const normalizePersona = (p: Persona): Persona => ({
+  id: typeof p.id === 'string' && p.id ? p.id : generateId(),
+  name: p.name.trim() || 'Untitled persona',
+  description: typeof p.description === 'string' ? p.description : '',
+  avatar: typeof p.avatar === 'string' && p.avatar ? p.avatar : EMPTY_PERSONA.avatar,
+  characterPrompt: p.characterPrompt,
+  temperature: typeof p.temperature === 'number' && Number.isFinite(p.temperature) ? p.temperature : undefined,
+  providerId: typeof p.providerId === 'string' && p.providerId ? p.providerId : undefined,
+  modelId: typeof p.modelId === 'string' && p.modelId ? p.modelId : undefined,
+});
+
+export const loadPersonas = (): Persona[] => {
+  try {
+    const raw = localStorage.getItem(PERSONAS_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed.filter(isPersona).map(normalizePersona) : [];
+  } catch {
+    return [];
+  }
+};
+
+const savePersonas = (personas: Persona[]) => {
+  localStorage.setItem(PERSONAS_KEY, JSON.stringify(personas));
+};
+
+export const getPersona = (id: string | null): Persona | undefined =>
+  id ? loadPersonas().find(p => p.id === id) : undefined;
+
+export const addPersona = (draft: PersonaDraft): Persona[] => {
+  const personas = [...loadPersonas(), normalizePersona({ ...draft, id: generateId() })];
+  savePersonas(personas);
+  return personas;
+};
+
+export const updatePersona = (id: string, changes: Partial<PersonaDraft>): Persona[] => {
+  const personas = loadPersonas().map(p => p.id === id ? normalizePersona({ ...p, ...changes }) : p);
+  savePersonas(personas);
+  return personas;
+};
+
+export const duplicatePersona = (id: string): Persona[] => {
+  const personas = loadPersonas();
+  const index = personas.findIndex(p => p.id === id);
+  if (index === -1) return personas;
+  const copy = { ...personas[index], id: generateId(), name: `${personas[index].name} (copy)` };
+  const next = [...personas.slice(0, index + 1), copy, ...personas.slice(index + 1)];
+  savePersonas(next);
+  return next;
+};
+
+export const removePersona = (id: string): Persona[] => {
+  const personas = loadPersonas().filter(p => p.id !== id);
+  savePersonas(personas);
+  if (getActivePersonaId() === id) setActivePersonaId(null);
+  return personas;
+};
+
+export const getActivePersonaId = (): string | null => localStorage.getItem(ACTIVE_PERSONA_KEY);
+
+export const setActivePersonaId = (id: string | null) => {
+  if (id) {
+    localStorage.setItem(ACTIVE_PERSONA_KEY, id);
+  } else {
+    localStorage.removeItem(ACTIVE_PERSONA_KEY);
+  }
+};
+
+export const exportPersonas = (personas: Persona[]) => ({
+  format: PERSONA_EXPORT_FORMAT,
+  personas,
+});
+
+/**
+ * Add personas from an export file (or a bare array / single persona). Imported
+ * personas always get new ids so they never overwrite existing ones.
+ */
+export const importPersonas = (raw: unknown): { personas: Persona[]; imported: number } => {
+  const container = raw as { format?: unknown; personas?: unknown } | null;
+  const candidates: unknown[] = Array.isArray(raw)
+    ? raw
+    : Array.isArray(container?.personas) ? container.personas : [raw];
+  const incoming = candidates.filter(isPersona).map(p => normalizePersona({ ...p, id: generateId() }));
+  if (!incoming.length) {
+    throw new Error('No personas found in file');
+  }
+  const personas = [...loadPersonas(), ...incoming];
+  savePersonas(personas);
+  return { personas, imported: incoming.length };
+};
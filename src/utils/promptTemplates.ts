@@ -0,0 +1,135 @@
+import { generateId } from './conversationStore';
+
+// Reusable prompts with `{{variable}}` placeholders that are filled in a form
+// before sending. Placeholder syntax:
+//   {{topic}}                    single-line text
+//   {{language=TypeScript}}      text with a default value
+//   {{severity|low|medium|high}} dropdown, the first choice is the default
+//   {{diff:multiline}}           multi-line text (may also take =default)
+
+const TEMPLATES_KEY = 'promptTemplates';
+
+export const TEMPLATE_EXPORT_FORMAT = 'reactagent-prompt-templates/v1';
+
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  description: string;
+  body: string;
+}
+
+export type PromptTemplateDraft = Omit<PromptTemplate, 'id'>;
+
+export const EMPTY_TEMPLATE: PromptTemplateDraft = { name: '', description: '', body: '' };
+
+export interface TemplateVariable {
+  name: string;
+  kind: 'text' | 'multiline' | 'select';
+  defaultValue: string;
+  choices: string[];
+}
+
+const PLACEHOLDER = /\{\{\s*([^{}]+?)\s*\}\}/g;
+
+const parsePlaceholder = (spec: string): TemplateVariable => {
+  const pipe = spec.indexOf('|');
+  if (pipe !== -1) {
+    const choices = spec.slice(pipe + 1).split('|').map(c => c.trim()).filter(Boolean);
+    return { name: spec.slice(0, pipe).trim(), kind: 'select', defaultValue: choices[0] ?? '', choices };
+  }
+  const eq = spec.indexOf('=');
+  const head = (eq === -1 ? spec : spec.slice(0, eq)).trim();
+  const defaultValue = eq === -1 ? '' : spec.slice(eq + 1).trim();
+  const multiline = /:\s*multiline$/i.test(head);
+  return {
+    name: multiline ? head.replace(/:\s*multiline$/i, '').trim() : head,
+    kind: multiline ? 'multiline' : 'text',
+    defaultValue,
+    choices: [],
+  };
+};
+
+/**
+ * Variables in order of first appearance. A variable used more than once is
+ * defined by its first placeholder.
+ */
+export const parseTemplateVariables = (body: string): TemplateVariable[] => {
+  const variables = new Map<string, TemplateVariable>();
+  for (const match of body.matchAll(PLACEHOLDER)) {
+    const variable = parsePlaceholder(match[1]);
+    if (variable.name && !variables.has(variable.name)) variables.set(variable.name, variable);
+  }
+  return [...variables.values()];
+};
+
+export const fillTemplate = (body: string, values: Record<string, string>): string =>
+  body.replace(PLACEHOLDER, (placeholder, spec: string) => {
+    const { name } = parsePlaceholder(spec);
+    return name in values ? values[name] : placeholder;
+  });
+
+const isTemplate = (value: unknown): value is PromptTemplate => {
+  const t = value as Partial<PromptTemplate> | null;
+  return !!t && typeof t.name === 'string' && typeof t.body === 'string';
+};
+
+const normalizeTemplate = (t: PromptTemplate): PromptTemplate => ({
+  id: typeof t.id === 'string' && t.id ? t.id : generateId(),
+  name: t.name.trim() || 'Untitled template',
+  description: typeof t.description === 'string' ? t.description : '',
+  body: t.body,
+});
+
+export const loadTemplates = (): PromptTemplate[] => {
+  try {
+    const raw = localStorage.getItem(TEMPLATES_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed.filter(isTemplate).map(normalizeTemplate) : [];
+  } catch {
+    return [];
+  }
+};
+
+const saveTemplates = (templates: PromptTemplate[]) => {
+  localStorage.setItem(TEMPLATES_KEY, JSON.stringify(templates));
+};
+
+export const addTemplate = (draft: PromptTemplateDraft): PromptTemplate[] => {
+  const templates = [...loadTemplates(), normalizeTemplate({ ...draft, id: generateId() })];
+  saveTemplates(templates);
+  return templates;
+};
+
+export const updateTemplate = (id: string, changes: Partial<PromptTemplateDraft>): PromptTemplate[] => {
+  const templates = loadTemplates().map(t => t.id === id ? normalizeTemplate({ ...t, ...changes }) : t);
+  saveTemplates(templates);
+  return templates;
+};
+
+export const removeTemplate = (id: string): PromptTemplate[] => {
+  const templates = loadTemplates().filter(t => t.id !== id);
+  saveTemplates(templates);
+  return templates;
+};
+
+export const exportTemplates = (templates: PromptTemplate[]) => ({
+  format: TEMPLATE_EXPORT_FORMAT,
+  templates,
+});
+
+/**
+ * Add templates from an export file (or a bare array / single template) under new ids
+ */
+export const importTemplates = (raw: unknown): { templates: PromptTemplate[]; imported: number } => {
+  const container = raw as { templates?: unknown } | null;
+  const candidates: unknown[] = Array.isArray(raw)
+    ? raw
+    : Array.isArray(container?.templates) ? container.templates : [raw];
+  const incoming = candidates.filter(isTemplate).map(t => normalizeTemplate({ ...t, id: generateId() }));
+  if (!incoming.length) {
+    throw new Error('No templates found in file');
+  }
+  const templates = [...loadTemplates(), ...incoming];
+  saveTemplates(templates);
+  return { templates, imported: incoming.length };
+};
@@ -0,0 +1,79 @@
+// Content-hash deduplication for knowledge base uploads. Hashes of ingested
+// documents are remembered per session so re-uploading the same file can be
+// skipped, and a changed file can replace the source it was uploaded as before.
+
+const hashesKey = (sessionId: string) => `ragHashes:${sessionId}`;
+
+// SHA-256 hex digest -> source name it was ingested as
+export type IngestedHashes = Record<string, string>;
+
+export type DedupDecision = 'new' | 'skip' | 'replace';
+
+export interface DedupResult {
+  decision: DedupDecision;
+  // Existing source that is skipped in favour of or replaced by this file
+  existingSource?: string;
+  reason: string;
+}
+
+export const sha256Hex = async (blob: Blob): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const loadIngestedHashes = (sessionId?: string): IngestedHashes => {
+  if (!sessionId) return {};
+  try {
+    return JSON.parse(localStorage.getItem(hashesKey(sessionId)) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+const saveIngestedHashes = (sessionId: string, hashes: IngestedHashes) => {
+  localStorage.setItem(hashesKey(sessionId), JSON.stringify(hashes));
+};
+
+export const recordIngestedHash = (sessionId: string | undefined, hash: string, sourceName: string) => {
+  if (!sessionId) return;
+  const hashes = loadIngestedHashes(sessionId);
+  // A source name maps to one version of its content
+  Object.keys(hashes).forEach(h => { if (hashes[h] === sourceName) delete hashes[h]; });
+  hashes[hash] = sourceName;
+  saveIngestedHashes(sessionId, hashes);
+};
+
+export const forgetIngestedSource = (sessionId: string | undefined, sourceName: string) => {
+  if (!sessionId) return;
+  const hashes = loadIngestedHashes(sessionId);
+  Object.keys(hashes).forEach(h => { if (hashes[h] === sourceName) delete hashes[h]; });
+  saveIngestedHashes(sessionId, hashes);
+};
+
+export const forgetAllIngested = (sessionId: string | undefined) => {
+  if (sessionId) localStorage.removeItem(hashesKey(sessionId));
+};
+
+/**
+ * Decide what to do with a file given what this session has already ingested:
+ * identical content is skipped, a new version of an existing source replaces it.
+ */
+export const decideDedup = (
+  hash: string,
+  name: string,
+  ingested: IngestedHashes,
+  existingSources: string[],
+  queuedHashes: Set<string>
+): DedupResult => {
+  if (queuedHashes.has(hash)) {
+    return { decision: 'skip', reason: 'Same content as another file in this queue' };
+  }
+  const sameContent = ingested[hash];
+  if (sameContent && existingSources.includes(sameContent)) {
+    return { decision: 'skip', existingSource: sameContent, reason: `Already ingested as ${sameContent}` };
+  }
+  if (existingSources.includes(name)) {
+    return { decision: 'replace', existingSource: name, reason: `Replaces the previous version of ${name}` };
+  }
+  return { decision: 'new', reason: 'New document' };
+};
@@ -0,0 +1,25 @@
+import { exportSessionMemory } from '../api/FastAPIClient';
+import { DEFAULT_EXPORT_ENCRYPTION, downloadExport, type ExportEncryption } from './exportCrypto';
+
+// Client-held session memory reference (`mem:<sessionId>`), sent with every chat request
+export interface StoredMemory {
+  token?: string;
+  chunks?: string[];
+}
+
+export const readStoredMemory = (sessionId: string): StoredMemory | undefined => {
+  try {
+    return JSON.parse(localStorage.getItem(`mem:${sessionId}`) || 'null') ?? undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Export a session's memory and download it as a (optionally encrypted) JSON file
+ */
+export const exportMemoryToFile = async (sessionId: string, encryption: ExportEncryption = DEFAULT_EXPORT_ENCRYPTION) => {
+  const stored = readStoredMemory(sessionId);
+  const memory = await exportSessionMemory(sessionId, stored?.token, stored?.chunks);
+  await downloadExport(memory, `session-memory-${sessionId}`, encryption);
+};
@@ -0,0 +1,99 @@
+// Registry of composer slash commands. Add an entry to SLASH_COMMANDS to make a
+// command available; the composer handles parsing, autocomplete and feedback.
+
+// An error message to show in the composer, or nothing on success
+export type SlashCommandResult = string | void;
+
+/**
+ * What a command can do to the app. Provided by the composer on every run.
+ */
+export interface SlashCommandContext {
+  clearMessages: () => void;
+  retryLastMessage: () => void;
+  // Resolves to an error message when the provider is unknown or doesn't offer the model
+  selectModel: (modelId: string, providerId?: string) => Promise<SlashCommandResult>;
+  // `null` stops using the current persona; returns an error message when no persona matches
+  selectPersona: (name: string | null) => SlashCommandResult;
+  // Send one message without memory recall, or arm the next message when text is empty.
+  // Resolves to an error message when the message could not be sent.
+  sendWithoutMemory: (text: string) => Promise<SlashCommandResult>;
+  openUploadPicker: () => void;
+}
+
+export interface SlashCommand {
+  name: string;
+  description: string;
+  // Argument hint shown in autocomplete; commands without one run straight from it
+  args?: string;
+  // Return a message to keep the input and show it as an error
+  run: (args: string, context: SlashCommandContext) => SlashCommandResult | Promise<SlashCommandResult>;
+}
+
+export const SLASH_COMMANDS: SlashCommand[] = [
+  {
+    name: 'clear',
+    description: 'Remove all messages from the chat',
+    run: (_, ctx) => ctx.clearMessages(),
+  },
+  {
+    name: 'retry',
+    description: 'Regenerate the last answer',
+    run: (_, ctx) => ctx.retryLastMessage(),
+  },
+  {
+    name: 'model',
+    description: 'Switch model, optionally on another provider',
+    args: '[provider] <model-id>',
+    run: (args, ctx) => {
+      const parts = args.split(/\s+/).filter(Boolean);
+      if (parts.length === 0 || parts.length > 2) return 'Usage: /model [provider] <model-id>';
+      return parts.length === 2 ? ctx.selectModel(parts[1], parts[0]) : ctx.selectModel(parts[0]);
+    },
+  },
+  {
+    name: 'persona',
+    description: 'Use a saved persona, or "off" to stop',
+    args: '<name> | off',
+    run: (args, ctx) => {
+      const name = args.trim();
+      if (!name) return 'Usage: /persona <name> | off';
+      return ctx.selectPersona(name.toLowerCase() === 'off' ? null : name);
+    },
+  },
+  {
+    name: 'memory',
+    description: 'Send one message without memory recall',
+    args: 'off [message]',
+    run: (args, ctx) => {
+      const match = args.match(/^off\b\s*([\s\S]*)$/i);
+      if (!match) return 'Usage: /memory off [message]';
+      return ctx.sendWithoutMemory(match[1].trim());
+    },
+  },
+  {
+    name: 'upload',
+    description: 'Add documents to the knowledge base',
+    run: (_, ctx) => ctx.openUploadPicker(),
+  },
+];
+
+/**
+ * Split "/name args" into the command and its arguments. Returns null for
+ * regular messages; `command` is undefined when the name isn't registered.
+ */
+export const parseSlashCommand = (input: string): { name: string; command?: SlashCommand; args: string } | null => {
+  const match = input.match(/^\/(\S+)\s*([\s\S]*)$/);
+  if (!match) return null;
+  const name = match[1].toLowerCase();
+  return { name, command: SLASH_COMMANDS.find(c => c.name === name), args: match[2] };
+};
+
+/**
+ * Commands to suggest while the user is still typing a command name
+ */
+export const suggestSlashCommands = (input: string): SlashCommand[] => {
+  const match = input.match(/^\/(\S*)$/);
+  if (!match) return [];
+  const prefix = match[1].toLowerCase();
+  return SLASH_COMMANDS.filter(c => c.name.startsWith(prefix));
+};
@@ -0,0 +1,12 @@
+/**
+ * Combine the system and character prompts from chat settings into the single
+ * system prompt sent with a chat request. Returns undefined when both are empty.
+ */
+export const buildSystemPrompt = (settings: { systemPrompt?: string; characterPrompt?: string }): string | undefined => {
+  const sys = (settings.systemPrompt && settings.systemPrompt.trim().length > 0) ? settings.systemPrompt.trim() : '';
+  const ch = (settings.characterPrompt && settings.characterPrompt.trim().length > 0) ? settings.characterPrompt.trim() : '';
+  if (sys && ch) return `${sys}\n\n${ch}`;
+  if (sys) return sys;
+  if (ch) return ch; // if only character prompt is set, still pass as system to keep ordering first
+  return undefined;
+};
@@ -0,0 +1,66 @@
+// Runtime theming: toggles Tailwind's `dark` class on <html> and overrides the
+// accent palette variables (see tailwind.config.js) for a custom accent color.
+
+export type ThemeMode = 'light' | 'dark' | 'system';
+
+export const THEME_MODES: Array<{ id: ThemeMode; label: string }> = [
+  { id: 'light', label: 'Light' },
+  { id: 'dark', label: 'Dark' },
+  { id: 'system', label: 'System' },
+];
+
+const SHADES = [50, 100, 200, 300, 400, 500, 600, 700, 800, 900, 950] as const;
+
+// Mix ratio towards white (positive) or black (negative) for each shade, with
+// the chosen color used as-is for 600, the shade of primary buttons
+const SHADE_MIX: Record<(typeof SHADES)[number], number> = {
+  50: 0.92, 100: 0.85, 200: 0.7, 300: 0.5, 400: 0.3, 500: 0.15,
+  600: 0, 700: -0.2, 800: -0.35, 900: -0.5, 950: -0.65,
+};
+
+const darkMedia = () => window.matchMedia('(prefers-color-scheme: dark)');
+
+export const resolveTheme = (mode: ThemeMode): 'light' | 'dark' =>
+  mode === 'system' ? (darkMedia().matches ? 'dark' : 'light') : mode;
+
+export const isValidAccent = (color: string): boolean => /^#[0-9a-f]{6}$/i.test(color);
+
+const mix = (hex: string, amount: number): string => {
+  const n = parseInt(hex.slice(1), 16);
+  const target = amount >= 0 ? 255 : 0;
+  const weight = Math.abs(amount);
+  return [(n >> 16) & 255, (n >> 8) & 255, n & 255]
+    .map(channel => Math.round(channel + (target - channel) * weight))
+    .join(' ');
+};
+
+// Same rule as tailwind.config.js: colored palettes swap tints and deep shades in dark mode
+const darkShadeFor = (shade: (typeof SHADES)[number]) =>
+  shade >= 300 && shade <= 600 ? shade : SHADES[SHADES.length - 1 - SHADES.indexOf(shade)];
+
+/**
+ * Apply the resolved theme and accent color to the document
+ */
+export const applyTheme = (mode: ThemeMode, accentColor: string) => {
+  const root = document.documentElement;
+  const dark = resolveTheme(mode) === 'dark';
+  root.classList.toggle('dark', dark);
+
+  SHADES.forEach(shade => {
+    const property = `--color-accent-${shade}`;
+    if (isValidAccent(accentColor)) {
+      root.style.setProperty(property, mix(accentColor, SHADE_MIX[dark ? darkShadeFor(shade) : shade]));
+    } else {
+      root.style.removeProperty(property);
+    }
+  });
+};
+
+/**
+ * Call `onChange` when the OS switches between light and dark
+ */
+export const watchSystemTheme = (onChange: () => void): (() => void) => {
+  const media = darkMedia();
+  media.addEventListener('change', onChange);
+  return () => media.removeEventListener('change', onChange);
+};
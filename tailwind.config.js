@@ -1,11 +1,69 @@
+import colors from 'tailwindcss/colors.js'
+import plugin from 'tailwindcss/plugin.js'
+
+const SHADES = [50, 100, 200, 300, 400, 500, 600, 700, 800, 900, 950]
+
+// Palettes resolved through CSS variables so the theme can swap them at runtime.
+// `blue` is the accent color: existing blue-* classes follow a custom accent.
+const THEMED_PALETTES = {
+  gray: colors.gray,
+  red: colors.red,
+  green: colors.green,
+  amber: colors.amber,
+  yellow: colors.yellow,
+  orange: colors.orange,
+  purple: colors.purple,
+  accent: colors.blue,
+}
+
+const toRgb = (hex) => {
+  const n = parseInt(hex.slice(1), 16)
+  return `${(n >> 16) & 255} ${(n >> 8) & 255} ${n & 255}`
+}
+
+// Dark mode mirrors the whole gray scale; colored palettes only swap their light
+// tints with their deep shades so 300-600 (buttons, icons) keep their hue.
+// Keep in sync with darkShadeFor in src/utils/theme.ts.
+const darkShadeFor = (name, shade) => {
+  const index = SHADES.indexOf(shade)
+  const mirrored = SHADES[SHADES.length - 1 - index]
+  if (name === 'gray') return mirrored
+  return shade >= 300 && shade <= 600 ? shade : mirrored
+}
+
+const variablesFor = (resolveShade) => Object.fromEntries(
+  Object.entries(THEMED_PALETTES).flatMap(([name, palette]) =>
+    SHADES.map(shade => [`--color-${name}-${shade}`, toRgb(palette[resolveShade(name, shade)])])
+  )
+)
+
+const varPalette = (name) => Object.fromEntries(
+  SHADES.map(shade => [shade, `rgb(var(--color-${name}-${shade}) / <alpha-value>)`])
+)
+
 /** @type {import('tailwindcss').Config} */
 export default {
   content: [
     "./index.html",
     "./src/**/*.{js,ts,jsx,tsx}",
   ],
+  darkMode: 'class',
   theme: {
-    extend: {},
+    extend: {
+      colors: {
+        ...Object.fromEntries(Object.keys(THEMED_PALETTES).map(name => [name, varPalette(name)])),
+        blue: varPalette('accent'),
+        // Cards, panels and inputs (white in the light theme)
+        surface: 'rgb(var(--color-surface) / <alpha-value>)',
+      },
+    },
   },
-  plugins: [],
-}
\ No newline at end of file
+  plugins: [
+    plugin(({ addBase }) => {
+      addBase({
+        ':root': { ...variablesFor((_, shade) => shade), '--color-surface': '255 255 255', colorScheme: 'light' },
+        '.dark': { ...variablesFor(darkShadeFor), '--color-surface': toRgb(colors.gray[900]), colorScheme: 'dark' },
+      })
+    }),
+  ],
+}